@@ -28,27 +28,27 @@
  */
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import artifact from '@actions/artifact';
 import { getOctokit, context } from '@actions/github';
 import Commit from '../dto/github/Commit';
 import WorkflowRun from '../dto/github/WorkflowRun';
 import { Logger } from '../utils/logger';
 import FileContent from '../dto/github/FileContent';
-import * as core from '@actions/core';
 import { config } from '../config/config';
+import { isSanitizable, sanitizeContent } from '../utils/redaction';
 
 const _owner_repo = { owner: config.owner, repo: config.repo };
+// a run in progress may already have pulled, so it is not pending: it would miss the commits pushed since
+const PENDING_RUN_STATUSES = ['queued', 'waiting', 'requested', 'pending'];
 export default class GitHubClient {
   private static logger: Logger = new Logger('githubClient');
 
   private static octokit = getOctokit(config.githubToken);
 
   public static getWorkflowPath = async (headSHA: string): Promise<string> => {
-    const token = core.getInput('githubToken', { required: true });
-    const octokit = getOctokit(token);
-
     try {
-      const { data: workflowRuns } = await octokit.rest.actions.listWorkflowRunsForRepo({
+      const { data: workflowRuns } = await this.octokit.rest.actions.listWorkflowRunsForRepo({
         owner: config.owner,
         repo: config.repo,
         event: 'push',
@@ -78,6 +78,7 @@ export default class GitHubClient {
   };
 
   public static uploadArtifact = async (parentPath: string, paths: string[], artifactName: string, skipInvalidPaths: boolean = true): Promise<number> => {
+    let stagingDir: string | null = null;
     try {
       let filesToUpload: string[] = [];
       this.logger.debug(`uploadArtifact: parentPath='${parentPath}', paths.length=${paths.length}, artifactName='${artifactName}' ...`);
@@ -105,17 +106,42 @@ export default class GitHubClient {
         }
       }
 
+      let rootDir = parentPath;
+      if (filesToUpload.some(isSanitizable)) {
+        stagingDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'artifact-'));
+        filesToUpload = await this.stageSanitizedFiles(parentPath, filesToUpload, stagingDir);
+        rootDir = stagingDir;
+      }
+
       this.logger.debug(`Uploading artifact ${artifactName} with ${filesToUpload.length} file(s)`);
-      const res = await artifact.uploadArtifact(artifactName, filesToUpload, parentPath);
+      const res = await artifact.uploadArtifact(artifactName, filesToUpload, rootDir);
 
       this.logger.info(`Artifact ${res.id} uploaded successfully.`);
       return res.id ?? 0;
     } catch (error) {
       this.logger.error(`uploadArtifact: ${error instanceof Error ? error.message : String(error)}`);
       return -1;
+    } finally {
+      stagingDir && await fs.promises.rm(stagingDir, { recursive: true, force: true });
     }
   };
 
+  // the props and mtbx files are uploaded as sanitized copies. all the files are copied, as they must be located under the same root directory
+  private static stageSanitizedFiles = async (parentPath: string, files: string[], stagingDir: string): Promise<string[]> => {
+    const stagedFiles: string[] = [];
+    for (const file of files) {
+      const stagedFile = path.join(stagingDir, path.relative(parentPath, file));
+      await fs.promises.mkdir(path.dirname(stagedFile), { recursive: true });
+      if (isSanitizable(file)) {
+        await fs.promises.writeFile(stagedFile, sanitizeContent(await fs.promises.readFile(file, 'utf8')), 'utf8');
+      } else {
+        await fs.promises.copyFile(file, stagedFile);
+      }
+      stagedFiles.push(stagedFile);
+    }
+    return stagedFiles;
+  };
+
   private static walkDir(dir: string): string[] {
     let results: string[] = [];
     const list = fs.readdirSync(dir);
@@ -146,6 +172,16 @@ export default class GitHubClient {
     return (await this.octokit.rest.repos.getCommit({ ..._owner_repo, ref: commitSha })).data;
   };
 
+  public static getCommitShasBetween = async (baseSha: string, headSha: string): Promise<string[]> => {
+    this.logger.debug(`getCommitShasBetween: ${baseSha}...${headSha} ...`);
+
+    const res = (await this.octokit.rest.repos.compareCommitsWithBasehead({ ..._owner_repo, basehead: `${baseSha}...${headSha}` })).data;
+    if (res.total_commits > res.commits.length) {
+      this.logger.warn(`getCommitShasBetween: Only the first ${res.commits.length} of ${res.total_commits} commits are returned.`);
+    }
+    return res.commits.map(c => c.sha);
+  };
+
   public static getWorkflowFile = async (workflowFileName: string, branch?: string): Promise<FileContent> => {
     this.logger.info(`getWorkflowFile: '${workflowFileName}' ...`);
 
@@ -156,6 +192,142 @@ export default class GitHubClient {
     return <FileContent>response.data;
   };
 
+  // returns null if the file does not exist at the given ref
+  public static getRepoFile = async (filePath: string, ref: string): Promise<FileContent | null> => {
+    this.logger.debug(`getRepoFile: '${filePath}', ref='${ref}' ...`);
+    try {
+      const response = await this.octokit.request('GET /repos/{owner}/{repo}/contents/{path}', { ..._owner_repo, path: filePath, ref });
+      return <FileContent>response.data;
+    } catch (e: any) {
+      if (e.status === 404) {
+        return null;
+      }
+      throw e;
+    }
+  };
+
+  public static getRepoVariable = async (name: string): Promise<string | null> => {
+    this.logger.debug(`getRepoVariable: name='${name}' ...`);
+    try {
+      return (await this.octokit.rest.actions.getRepoVariable({ ..._owner_repo, name })).data.value;
+    } catch (e: any) {
+      if (e.status === 404) {
+        return null;
+      }
+      throw e;
+    }
+  };
+
+  public static setRepoVariable = async (name: string, value: string): Promise<void> => {
+    this.logger.debug(`setRepoVariable: name='${name}' ...`);
+    try {
+      await this.octokit.rest.actions.updateRepoVariable({ ..._owner_repo, name, value });
+    } catch (e: any) {
+      if (e.status !== 404) {
+        throw e;
+      }
+      await this.octokit.rest.actions.createRepoVariable({ ..._owner_repo, name, value });
+    }
+  };
+
+  // the comment is identified by a hidden marker, so each run updates it instead of adding a new one
+  public static upsertPullRequestComment = async (prNumber: number, marker: string, body: string): Promise<void> => {
+    this.logger.debug(`upsertPullRequestComment: pr=${prNumber}, marker='${marker}' ...`);
+    const markedBody = `<!-- ${marker} -->\n${body}`;
+    const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, { ..._owner_repo, issue_number: prNumber, per_page: 100 });
+    const existing = comments.find(c => c.body?.includes(`<!-- ${marker} -->`));
+    if (existing) {
+      await this.octokit.rest.issues.updateComment({ ..._owner_repo, comment_id: existing.id, body: markedBody });
+    } else {
+      await this.octokit.rest.issues.createComment({ ..._owner_repo, issue_number: prNumber, body: markedBody });
+    }
+  };
+
+  public static dispatchWorkflow = async (workflowFileName: string, ref: string): Promise<void> => {
+    this.logger.info(`dispatchWorkflow: '${workflowFileName}', ref='${ref}' ...`);
+    await this.octokit.rest.actions.createWorkflowDispatch({ ..._owner_repo, workflow_id: workflowFileName, ref });
+  };
+
+  // checks if another workflow_dispatch run of the workflow is queued or running on the branch
+  public static hasPendingWorkflowDispatchRun = async (workflowFileName: string, branch: string): Promise<boolean> => {
+    this.logger.debug(`hasPendingWorkflowDispatchRun: '${workflowFileName}', branch='${branch}' ...`);
+    const runs = (await this.octokit.rest.actions.listWorkflowRuns({
+      ..._owner_repo, workflow_id: workflowFileName, event: 'workflow_dispatch', branch, per_page: 20
+    })).data.workflow_runs;
+    return runs.some(run => run.id !== context.runId && PENDING_RUN_STATUSES.includes(run.status ?? ''));
+  };
+
+  // creates a commit which is not part of any branch, its tree is the tree of the given commit
+  public static createDetachedCommit = async (message: string, treeOfCommitSha: string, parents: string[] = []): Promise<string> => {
+    this.logger.debug(`createDetachedCommit: parents=${parents} ...`);
+    const tree = (await this.octokit.rest.git.getCommit({ ..._owner_repo, commit_sha: treeOfCommitSha })).data.tree.sha;
+    return (await this.octokit.rest.git.createCommit({ ..._owner_repo, message, tree, parents })).data.sha;
+  };
+
+  public static getCommitMessage = async (commitSha: string): Promise<string> => {
+    this.logger.trace(`getCommitMessage: sha='${commitSha}' ...`);
+    return (await this.octokit.rest.git.getCommit({ ..._owner_repo, commit_sha: commitSha })).data.message;
+  };
+
+  // the ref is given without the 'refs/' prefix, e.g. 'locks/name'
+  public static getRefSha = async (ref: string): Promise<string | null> => {
+    this.logger.debug(`getRefSha: ref='${ref}' ...`);
+    try {
+      return (await this.octokit.rest.git.getRef({ ..._owner_repo, ref })).data.object.sha;
+    } catch (e: any) {
+      if (e.status === 404) {
+        return null;
+      }
+      throw e;
+    }
+  };
+
+  // returns false if the ref already exists
+  public static createRef = async (ref: string, sha: string): Promise<boolean> => {
+    this.logger.debug(`createRef: ref='${ref}', sha='${sha}' ...`);
+    try {
+      await this.octokit.rest.git.createRef({ ..._owner_repo, ref: `refs/${ref}`, sha });
+      return true;
+    } catch (e: any) {
+      if (e.status === 422) {
+        return false;
+      }
+      throw e;
+    }
+  };
+
+  // without force, the update succeeds only if the ref points to an ancestor of sha. returns false if it did not
+  public static updateRef = async (ref: string, sha: string, force: boolean = false): Promise<boolean> => {
+    this.logger.debug(`updateRef: ref='${ref}', sha='${sha}', force=${force} ...`);
+    try {
+      await this.octokit.rest.git.updateRef({ ..._owner_repo, ref, sha, force });
+      return true;
+    } catch (e: any) {
+      if (e.status === 422) {
+        return false;
+      }
+      throw e;
+    }
+  };
+
+  public static deleteRef = async (ref: string): Promise<void> => {
+    this.logger.debug(`deleteRef: ref='${ref}' ...`);
+    try {
+      await this.octokit.rest.git.deleteRef({ ..._owner_repo, ref });
+    } catch (e: any) {
+      if (e.status !== 404 && e.status !== 422) {
+        throw e;
+      }
+    }
+  };
+
+  // the scopes of a classic personal access token, null for the GITHUB_TOKEN or a fine-grained token, whose permissions are not listed
+  public static getTokenScopes = async (): Promise<string[] | null> => {
+    const { headers } = await this.octokit.rest.repos.get(_owner_repo);
+    const scopes = headers['x-oauth-scopes'];
+    return scopes === undefined ? null : `${scopes}`.split(',').map(s => s.trim()).filter(s => s);
+  };
+
   public static cancelWorkflowRun = async (): Promise<void> => {
     this.logger.info(`cancelWorkflowRun: run_id='${context.runId}' ...`);
     try {
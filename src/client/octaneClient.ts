@@ -37,46 +37,95 @@ import CiExecutor from '../dto/octane/general/CiExecutor';
 import CiExecutorBody from '../dto/octane/general/bodies/CiExecutorBody';
 import CiServer from '../dto/octane/general/CiServer';
 import CiServerInfo from '../dto/octane/general/CiServerInfo';
-import { escapeQueryVal, isVersionGreater } from '../utils/utils';
+import { escapeQueryVal, isVersionGreater, sleep } from '../utils/utils';
 import { EntityConstants } from '../dto/octane/general/EntityConstants';
 import FolderBody from '../dto/octane/general/bodies/FolderBody';
 import Folder, { BaseFolder } from '../dto/octane/general/Folder';
 import UnitBody, { UnitParamBody } from '../dto/octane/general/bodies/UnitBody';
 import Unit, { UnitParam } from '../dto/octane/general/Unit';
+import ScmResxFile from '../dto/octane/general/ScmResxFile';
+import ScmResxFileBody from '../dto/octane/general/bodies/ScmResxFileBody';
 import CiJob from '../dto/octane/general/CiJob';
 import CiJobBody from '../dto/octane/general/bodies/CiJobBody';
 import CiServerBody from '../dto/octane/general/bodies/CiServerBody';
 import Test from '../dto/octane/general/Test';
 import MbtTestData from '../mbt/MbtTestData';
+import SyncPlan, { SyncPlanEntity } from '../discovery/SyncPlan';
 import { THRESHOLD_OCTANE_VERSION, PLUGIN_VERSION } from '../utils/constants';
 const { ID, COLLECTION_NAME: MODEL_ITEMS, NAME, LOGICAL_NAME, ENTITY_NAME: MODEL_ITEM, ENTITY_SUBTYPE: MODEL_FOLDER, SUBTYPE, PARENT } = EntityConstants.ModelFolder;
 const { COLLECTION_NAME: AUTOMATED_TESTS, TEST_RUNNER } = EntityConstants.AutomatedTest;
 const { REPOSITORY_PATH } = EntityConstants.MbtUnit;
+const { COLLECTION_NAME: SCM_RESOURCE_FILES, RELATIVE_PATH } = EntityConstants.ScmResourceFile;
+const { COLLECTION_NAME: ENTITY_PARAMETERS } = EntityConstants.MbtUnitParameter;
 const SERVER_TYPE = 'server_type';
 const CI_SERVERS = 'ci_servers';
 const SCM_REPOSITORY = 'scm_repository';
 const TESTING_TOOL_TYPE = 'testing_tool_type';
 const INSTANCE_ID = 'instance_id';
 const _headers = { HPECLIENTTYPE: 'HPE_CI_CLIENT' };
+const MAX_RETRY_DELAY_MS = 60000;
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH'];
+
+// the parts of the errors of the sdk (and of its http client) which the retry reads
+interface RequestError {
+  code?: string;
+  message?: string;
+  status?: number;
+  statusCode?: number;
+  response?: {
+    status?: number;
+    headers?: { get?: (name: string) => string | null; [name: string]: unknown };
+  };
+}
+
+const createOctane = (workspaceId: number): Octane => new Octane({
+  server: config.octaneUrl,
+  sharedSpace: config.octaneSharedSpace,
+  workspace: workspaceId,
+  user: config.octaneClientId,
+  password: config.octaneClientSecret,
+  headers: _headers
+});
 
 export default class OctaneClient {
   private static logger: Logger = new Logger('octaneClient');
   private static GITHUB_ACTIONS = 'github_actions';
-  private static octane: Octane = new Octane({
-    server: config.octaneUrl,
-    sharedSpace: config.octaneSharedSpace,
-    workspace: config.octaneWorkspace,
-    user: config.octaneClientId,
-    password: config.octaneClientSecret,
-    headers: _headers
-  });
-
-  private static ANALYTICS_WORKSPACE_CI_INTERNAL_API_URL = `/internal-api/shared_spaces/${config.octaneSharedSpace}/workspaces/${config.octaneWorkspace}/analytics/ci`;
+  private static _workspaceId: number = config.octaneWorkspace;
+  private static octane: Octane = createOctane(config.octaneWorkspace);
+
+  private static get ANALYTICS_WORKSPACE_CI_INTERNAL_API_URL(): string {
+    return `/internal-api/shared_spaces/${config.octaneSharedSpace}/workspaces/${this._workspaceId}/analytics/ci`;
+  }
   private static ANALYTICS_CI_INTERNAL_API_URL = `/internal-api/shared_spaces/${config.octaneSharedSpace}/analytics/ci`;
-  private static CI_INTERNAL_API_URL = `/internal-api/shared_spaces/${config.octaneSharedSpace}/workspaces/${config.octaneWorkspace}`;
-  private static CI_API_URL = `/api/shared_spaces/${config.octaneSharedSpace}/workspaces/${config.octaneWorkspace}`;
+  private static get CI_INTERNAL_API_URL(): string {
+    return `/internal-api/shared_spaces/${config.octaneSharedSpace}/workspaces/${this._workspaceId}`;
+  }
+  private static get CI_API_URL(): string {
+    return `/api/shared_spaces/${config.octaneSharedSpace}/workspaces/${this._workspaceId}`;
+  }
 
   private static _octaneVersionCached: string | null = null;
+  private static _syncPlan: SyncPlan | null = null;
+
+  public static getWorkspace(): number {
+    return this._workspaceId;
+  }
+
+  // all the following requests are sent to the given workspace of the shared space, the Octane version is kept as it is the same for all workspaces
+  public static setWorkspace(workspaceId: number): void {
+    if (workspaceId === this._workspaceId) {
+      return;
+    }
+    this.logger.info(`Switching to workspace ${workspaceId} ...`);
+    this.octane = createOctane(workspaceId);
+    this._workspaceId = workspaceId;
+  }
+
+  // in dry run mode the created, updated and deleted entities are only recorded in the sync plan
+  public static setDryRun(syncPlan: SyncPlan | null): void {
+    this._syncPlan = syncPlan;
+  }
+
   public static async getCachedOctaneVersion(): Promise<string> {
     if (!this._octaneVersionCached) {
       this._octaneVersionCached = await this.getOctaneVersion();
@@ -97,7 +146,7 @@ export default class OctaneClient {
     const customUrl = `${this.ANALYTICS_CI_INTERNAL_API_URL}/events`;
     this.logger.debug(`sendEvent: PUT ${customUrl}`, body);
     this.logger.debug(JSON.stringify(body, null, 2));
-    await this.octane.executeCustomRequest(customUrl, Octane.operationTypes.update, body);
+    await this.withRetry('sendEvent', () => this.octane.executeCustomRequest(customUrl, Octane.operationTypes.update, body));
   };
 
   public static sendTestResult = async (xml: string/*, instanceId: string, jobId: string, buildId: number*/): Promise<void> => {
@@ -105,14 +154,14 @@ export default class OctaneClient {
     const url = `${this.ANALYTICS_CI_INTERNAL_API_URL}/test-results?skip-errors=true`;
     this.logger.debug(`sendTestResult: POST ${url} ...`);
     this.logger.debug(xml);
-    await this.octane.executeCustomRequest(url, Octane.operationTypes.create, xml, { 'Content-Type': 'application/xml' });
+    await this.withRetry('sendTestResult', () => this.octane.executeCustomRequest(url, Octane.operationTypes.create, xml, { 'Content-Type': 'application/xml' }), false);
   };
 
   private static createCIServer = async (instance_id: string, url: string): Promise<CiServer> => {
     const body: CiServerBody = { name: instance_id, instance_id, server_type: this.GITHUB_ACTIONS, url };
     this.logger.debug(`createCIServer: ...`, body);
     const fldNames = ['id', 'name', 'instance_id', 'url', 'is_connected', 'server_type'];
-    const res = await this.octane.create(CI_SERVERS, body).fields(...fldNames).execute();
+    const res = await this.withRetry('createCIServer', () => this.octane.create(CI_SERVERS, body).fields(...fldNames).execute(), false);
     return res.data[0];
   };
 
@@ -124,7 +173,7 @@ export default class OctaneClient {
 
     const ciServerQuery = qryBase.and(Query.field('url').equal(escapeQueryVal(config.repoUrl))).build();
     const fldNames = ['instance_id', 'plugin_version', 'url', 'is_connected'];
-    let res = await this.octane.get(CI_SERVERS).fields(...fldNames).query(ciServerQuery).limit(1).execute();
+    let res = await this.withRetry('getCiServer', () => this.octane.get(CI_SERVERS).fields(...fldNames).query(ciServerQuery).limit(1).execute());
     let ciServer = null;
     if (res?.total_count && res.data?.length) {
       ciServer = res.data[0];
@@ -132,7 +181,7 @@ export default class OctaneClient {
       const repoUrl = config.repoUrl.replace(/\.git$/, '');
       const ciServerQuery = qryBase.and(Query.field('url').equal(escapeQueryVal(repoUrl))).build();
       this.logger.debug(`getCiServer: retry with url=[${repoUrl}] ...`);
-      res = await this.octane.get(CI_SERVERS).fields(...fldNames).query(ciServerQuery).limit(1).execute();
+      res = await this.withRetry('getCiServer', () => this.octane.get(CI_SERVERS).fields(...fldNames).query(ciServerQuery).limit(1).execute());
       if (res?.total_count && res.data?.length) {
         ciServer = res.data[0];
       }
@@ -164,7 +213,7 @@ export default class OctaneClient {
 
     //name,framework,test_runner_parameters,last_successful_sync,subtype,id,last_sync,next_sync,message,sync_status,ci_server{id},scm_repository{repository}
     const fldNames = ['id', 'name', 'subtype', 'framework', 'scm_repository', 'ci_job', 'ci_server'];
-    const res = await this.octane.get('executors').fields(...fldNames).query(q).limit(1).execute();
+    const res = await this.withRetry('getExecutor', () => this.octane.get('executors').fields(...fldNames).query(q).limit(1).execute());
     const entries = res?.data ?? [];
     if (!entries.length) {
       return null;
@@ -174,6 +223,12 @@ export default class OctaneClient {
     return entry;
   };
 
+  public static fetchExecutorsOfScmRepository = async (scmRepositoryId: number, subType: string): Promise<CiExecutor[]> => {
+    this.logger.debug(`fetchExecutorsOfScmRepository: scmRepositoryId=${scmRepositoryId} ...`);
+    const qry = Query.field(SCM_REPOSITORY).equal(Query.field(ID).equal(scmRepositoryId)).and(Query.field(SUBTYPE).equal(subType));
+    return await this.fetchEntities<CiExecutor>('executors', qry, ['id', 'name']);
+  };
+
   public static createMbtTestRunner = async (name: string, ciServerId: number, ciJob: CiJob): Promise<CiExecutor> => {
     const body: CiExecutorBody = {
       name: name,
@@ -197,7 +252,7 @@ export default class OctaneClient {
     const url = `${this.CI_INTERNAL_API_URL}/je/test_runners/uft`;
     this.logger.debug(`createMbtTestRunner: POST ${url}`);
     this.logger.debug(JSON.stringify(body, null, 2));
-    const entry = await this.octane.executeCustomRequest(url, Octane.operationTypes.create, body);
+    const entry = await this.withRetry('createMbtTestRunner', () => this.octane.executeCustomRequest(url, Octane.operationTypes.create, body), false);
 
     if (!entry || entry.total_count === 0) {
       throw Error('Could not create the test runner entity.');
@@ -215,7 +270,7 @@ export default class OctaneClient {
     this.logger.debug(`updateMbtTestRunner: PUT`);
     this.logger.debug(JSON.stringify(body, null, 2));
     const fldNames = ['id', 'name', 'subtype', 'framework', 'scm_repository', 'ci_job', 'ci_server'];
-    const res = await this.octane.update('executors', body).fields(...fldNames).execute();
+    const res = await this.withRetry('updateExecutor', () => this.octane.update('executors', body).fields(...fldNames).execute());
 
     if (!res) {
       throw Error(`Could not update the executor with id=${id}.`);
@@ -224,29 +279,59 @@ export default class OctaneClient {
     return res;
   };
 
+  public static getExecutorSyncState = async (name: string, subType: string): Promise<CiExecutor | null> => {
+    this.logger.debug(`getExecutorSyncState: name=${name} ...`);
+    const q = Query.field(NAME).equal(escapeQueryVal(name))
+      .and(Query.field(SUBTYPE).equal(subType))
+      .build();
+    const fldNames = ['id', 'name', 'message', 'last_successful_sync', 'sync_status'];
+    const res = await this.withRetry('getExecutorSyncState', () => this.octane.get('executors').fields(...fldNames).query(q).limit(1).execute());
+    return res?.data?.length ? res.data[0] : null;
+  };
+
+  public static updateExecutorSyncState = async (id: number, message: string, syncTime: string): Promise<void> => {
+    this.logger.debug(`updateExecutorSyncState: id=${id} ...`);
+    const body = {
+      id: id,
+      message: message,
+      last_sync: syncTime,
+      last_successful_sync: syncTime,
+      sync_status: JSON.parse(EntityConstants.Executors.SYNC_STATUS_PASSED)
+    };
+    const res = await this.withRetry('updateExecutorSyncState', () => this.octane.update('executors', body).fields('id').execute());
+    if (!res) {
+      throw Error(`Could not update the sync state of the executor with id=${id}.`);
+    }
+  };
+
   public static getCiServerByInstanceId = async (instanceId: string): Promise<CiServer | null> => {
     this.logger.debug(`getCiServerByInstanceId: instanceId=${instanceId} ...`);
     const ciServerQuery = Query.field(INSTANCE_ID).equal(escapeQueryVal(`${instanceId}`)).build();
 
-    const res = await this.octane.get(CI_SERVERS).fields(INSTANCE_ID).query(ciServerQuery).limit(1).execute();
+    const res = await this.withRetry('getCiServerByInstanceId', () => this.octane.get(CI_SERVERS).fields(INSTANCE_ID).query(ciServerQuery).limit(1).execute());
     return res?.data?.length ? res.data[0] : null;
   };
 
   public static getSharedSpaceName = async (sharedSpaceId: number): Promise<string> => {
     this.logger.debug(`getSharedSpaceName: id=${sharedSpaceId} ...`);
-    const res = await this.octane.executeCustomRequest(`/api/shared_spaces?fields=name&query="id EQ ${sharedSpaceId}"`, Octane.operationTypes.get);
+    const res = await this.withRetry('getSharedSpaceName', () => this.octane.executeCustomRequest(`/api/shared_spaces?fields=name&query="id EQ ${sharedSpaceId}"`, Octane.operationTypes.get));
     return res.data[0].name;
   };
 
   public static getOctaneVersion = async (): Promise<string> => {
-    const response = await this.octane.executeCustomRequest(
+    const response = await this.withRetry('getOctaneVersion', () => this.octane.executeCustomRequest(
       this.ANALYTICS_CI_INTERNAL_API_URL + '/servers/connectivity/status',
       Octane.operationTypes.get
-    );
+    ));
 
     return response.octaneVersion;
   };
 
+  // reads a single entity of the collection, to verify the API access has the required role in the current workspace
+  public static checkReadAccess = async (collectionName: string = CI_SERVERS): Promise<void> => {
+    await this.withRetry('checkReadAccess', () => this.octane.get(collectionName).fields(ID).limit(1).execute());
+  };
+
   /**
    * Gets a map containing the experiments related to GitHub Actions and their
    * activation status.
@@ -256,10 +341,10 @@ export default class OctaneClient {
   public static getFeatureToggles = async (): Promise<{ [key: string]: boolean }> => {
     this.logger.info(`Getting features' statuses (on/off)...`);
 
-    const response = await this.octane.executeCustomRequest(
+    const response = await this.withRetry('getFeatureToggles', () => this.octane.executeCustomRequest(
       `${this.ANALYTICS_WORKSPACE_CI_INTERNAL_API_URL}/github_feature_toggles`,
       Octane.operationTypes.get
-    );
+    ));
 
     return response;
   };
@@ -318,14 +403,14 @@ export default class OctaneClient {
       .and(Query.field(SUBTYPE).equal(MODEL_FOLDER))
       .build();
 
-    const res = await this.octane.get(MODEL_ITEMS).query(qry).fields(...["id", "name"]).limit(1).execute();
+    const res = await this.withRetry('getRunnerDedicatedFolder', () => this.octane.get(MODEL_ITEMS).query(qry).fields(...["id", "name"]).limit(1).execute());
     return res?.data?.length ? res.data[0] : null;
   }
 
   public static getGitMirrorFolder = async (): Promise<BaseFolder | null> => {
     this.logger.debug(`getGitMirrorFolder: ...`);
     const qry = Query.field(LOGICAL_NAME).equal("mbt.discovery.unit.default_folder_name").build();
-    const res = await this.octane.get(MODEL_ITEMS).query(qry).limit(1).execute();
+    const res = await this.withRetry('getGitMirrorFolder', () => this.octane.get(MODEL_ITEMS).query(qry).limit(1).execute());
     return res?.data?.length ? res.data[0] : null;
   }
 
@@ -404,7 +489,7 @@ export default class OctaneClient {
       }
     }
     // add parameters
-    const unitParams = await this.postEntities<UnitParamBody, UnitParam>("entity_parameters", paramsToAdd);
+    const unitParams = await this.postEntities<UnitParamBody, UnitParam>(ENTITY_PARAMETERS, paramsToAdd);
     this.logger.info(`Successfully added ${unitParams.length} new unit parameters.`);
   }
 
@@ -415,10 +500,73 @@ export default class OctaneClient {
     return updatedUnits;
   }
 
-  private static getScmRepositoryId = async (repoURL: string): Promise<number> => {
+  public static fetchUnitParams = async (unitIds: string[]): Promise<UnitParam[]> => {
+    if (!unitIds?.length) return [];
+    this.logger.debug(`fetchUnitParams: unitIds.length=${unitIds.length} ...`);
+    const MAX_LIMIT = 100;
+    const unitParams: UnitParam[] = [];
+    for (const ids of this.partition(unitIds, MAX_LIMIT)) {
+      const qry = Query.field(MODEL_ITEM).equal(Query.field(ID).inComparison(ids));
+      unitParams.push(...await this.fetchEntities<UnitParam>(ENTITY_PARAMETERS, qry, ['id', 'name', 'value', 'parameter_type', 'model_item']));
+    }
+    return unitParams;
+  }
+
+  public static createUnitParams = async (params: UnitParamBody[]): Promise<UnitParam[]> => {
+    if (!params?.length) return [];
+    this.logger.debug(`createUnitParams: length=${params.length} ...`);
+    const unitParams = await this.postEntities<UnitParamBody, UnitParam>(ENTITY_PARAMETERS, params);
+    this.logger.info(`Successfully added ${unitParams.length} new unit parameters.`);
+    return unitParams;
+  }
+
+  public static updateUnitParams = async (params: UnitParamBody[]): Promise<UnitParam[]> => {
+    if (!params?.length) return [];
+    this.logger.debug(`updateUnitParams: length=${params.length} ...`);
+    return await this.putEntities<UnitParamBody, UnitParam>(ENTITY_PARAMETERS, params);
+  }
+
+  public static deleteUnitParams = async (ids: string[]): Promise<void> => {
+    if (!ids?.length) return;
+    this.logger.debug(`deleteUnitParams: length=${ids.length} ...`);
+    await this.deleteEntities(ENTITY_PARAMETERS, ids);
+    this.logger.info(`Successfully deleted ${ids.length} unit parameters.`);
+  }
+
+  public static fetchScmResxFiles = async (scmRepositoryId: number, relativePaths: string[] = []): Promise<ScmResxFile[]> => {
+    this.logger.debug(`fetchScmResxFiles: scmRepositoryId=${scmRepositoryId}, relativePaths.length=${relativePaths.length} ...`);
+    let qry = Query.field(SCM_REPOSITORY).equal(Query.field(ID).equal(scmRepositoryId));
+    if (relativePaths.length) {
+      qry = qry.and(Query.field(RELATIVE_PATH).inComparison(relativePaths.map(p => escapeQueryVal(p))));
+    }
+    return await this.fetchEntities<ScmResxFile>(SCM_RESOURCE_FILES, qry, ['id', 'name', 'relative_path']);
+  }
+
+  public static createScmResxFiles = async (resxFiles: ScmResxFileBody[]): Promise<ScmResxFile[]> => {
+    if (!resxFiles?.length) return [];
+    this.logger.debug(`createScmResxFiles: length=${resxFiles.length} ...`);
+    const newResxFiles = await this.postEntities<ScmResxFileBody, ScmResxFile>(SCM_RESOURCE_FILES, resxFiles, ['id', 'name', 'relative_path']);
+    this.logger.info(`Successfully added ${newResxFiles.length} new scm resource files.`);
+    return newResxFiles;
+  }
+
+  public static updateScmResxFiles = async (resxFiles: ScmResxFileBody[]): Promise<ScmResxFile[]> => {
+    if (!resxFiles?.length) return [];
+    this.logger.debug(`updateScmResxFiles: length=${resxFiles.length} ...`);
+    return await this.putEntities<ScmResxFileBody, ScmResxFile>(SCM_RESOURCE_FILES, resxFiles);
+  }
+
+  public static deleteScmResxFiles = async (ids: string[]): Promise<void> => {
+    if (!ids?.length) return;
+    this.logger.debug(`deleteScmResxFiles: length=${ids.length} ...`);
+    await this.deleteEntities(SCM_RESOURCE_FILES, ids);
+    this.logger.info(`Successfully deleted ${ids.length} scm resource files.`);
+  }
+
+  public static getScmRepositoryId = async (repoURL: string): Promise<number> => {
     this.logger.debug(`getScmRepositoryId: url=[${repoURL}] ...`);
     const scmRepoQuery = Query.field('url').equal(escapeQueryVal(repoURL)).build();
-    const res = await this.octane.get('scm_repository_roots').fields(ID).query(scmRepoQuery).limit(1).execute();
+    const res = await this.withRetry('getScmRepositoryId', () => this.octane.get('scm_repository_roots').fields(ID).query(scmRepoQuery).limit(1).execute());
     if (!res || !res.total_count || !res.data.length) {
       throw new Error(`SCM Repository not found.`);
     }
@@ -438,7 +586,7 @@ export default class OctaneClient {
   public static getMbtTestSuiteData = async (suiteRunId: number): Promise<Map<number, MbtTestData>> => {
     const url = `${this.CI_API_URL}/suite_runs/${suiteRunId}/get_suite_data`;
     this.logger.debug(`getMbtTestSuiteData: GET ${url} ...`);
-    const res: { [key: string]: string } = await this.octane.executeCustomRequest(url, Octane.operationTypes.get);
+    const res: { [key: string]: string } = await this.withRetry('getMbtTestSuiteData', () => this.octane.executeCustomRequest(url, Octane.operationTypes.get));
     this.logger.debug("getMbtTestSuiteData:", res);
     const decodedMap = new Map<number, MbtTestData>();
 
@@ -492,7 +640,7 @@ export default class OctaneClient {
       branch: ciJob.branchName
     };
 
-    const res = await this.octane.create('ci_jobs', ciJobToCreate).fields('id,ci_id,name,ci_server{name,instance_id}').execute();
+    const res = await this.withRetry('createCiJob', () => this.octane.create('ci_jobs', ciJobToCreate).fields('id,ci_id,name,ci_server{name,instance_id}').execute(), false);
 
     if (!res || !res.total_count || !res.data.length) {
       throw Error('Could not create the CI job entity.');
@@ -509,7 +657,7 @@ export default class OctaneClient {
     let go = false;
     do {
       try {
-        const res = await this.octane.get(collectionName).query(qry).fields(...fields).offset(entities.length).limit(MAX_LIMIT).orderBy("id").execute();
+        const res = await this.withRetry('fetchEntities', () => this.octane.get(collectionName).query(qry).fields(...fields).offset(entities.length).limit(MAX_LIMIT).orderBy("id").execute());
         go = res.total_count === MAX_LIMIT && res.data?.length === MAX_LIMIT;
         res.data?.length && entities.push(...res.data);
       } catch (error: any) {
@@ -520,30 +668,143 @@ export default class OctaneClient {
     return entities;
   };
 
-  public static postEntities = async <T, U>(collectionName: string, entries: T[], fields: string[] = []): Promise<U[]> => {
+  public static postEntities = async <T extends SyncPlanEntity, U>(collectionName: string, entries: T[], fields: string[] = []): Promise<U[]> => {
     this.logger.debug(`postEntities: collectionName=${collectionName}, length=${entries.length} ...`);
+    if (this._syncPlan) {
+      return this._syncPlan.addCreated<T, U>(collectionName, entries);
+    }
     const results: U[] = [];
     const MAX_LIMIT = 100;
     const partitions: T[][] = this.partition(entries, MAX_LIMIT);
     for (const entities of partitions) {
-      const res = await this.octane.create(collectionName, entities).fields(...fields).execute();
+      const res = await this.withRetry('postEntities', () => this.octane.create(collectionName, entities).fields(...fields).execute(), false);
       res.data?.length && results.push(...res.data);
     }
     return results;
   }
 
-  public static putEntities = async <T, U>(collectionName: string, entries: T[], fields: string[] = []): Promise<U[]> => {
+  public static putEntities = async <T extends SyncPlanEntity, U>(collectionName: string, entries: T[], fields: string[] = []): Promise<U[]> => {
     this.logger.debug(`putEntities: collectionName=${collectionName}, length=${entries.length} ...`);
+    if (this._syncPlan) {
+      return this._syncPlan.addUpdated<T, U>(collectionName, entries);
+    }
     const results: U[] = [];
     const MAX_LIMIT = 100;
     const partitions: T[][] = this.partition(entries, MAX_LIMIT);
     for (const entities of partitions) {
-      const res = await this.octane.updateBulk(collectionName, entities).fields(...fields).execute();
+      const res = await this.withRetry('putEntities', () => this.octane.updateBulk(collectionName, entities).fields(...fields).execute());
       res.data?.length && results.push(...res.data);
     }
     return results;
   }
 
+  public static deleteEntities = async (collectionName: string, ids: string[]): Promise<void> => {
+    this.logger.debug(`deleteEntities: collectionName=${collectionName}, length=${ids.length} ...`);
+    if (this._syncPlan) {
+      this._syncPlan.addDeleted(collectionName, ids);
+      return;
+    }
+    const MAX_LIMIT = 100;
+    const partitions: string[][] = this.partition(ids, MAX_LIMIT);
+    for (const idsChunk of partitions) {
+      const qry = Query.field(ID).inComparison(idsChunk).build();
+      await this.withRetry('deleteEntities', () => this.octane.delete(collectionName).query(qry).execute());
+    }
+  }
+
+  /**
+   * Runs a request against Octane with a timeout, retrying it on throttling (429), server errors (5xx) and network failures.
+   * A request which is not idempotent (e.g. creating entities) is retried only if it surely was not processed by the server.
+   * @param operation The name of the calling operation, used for logging.
+   * @param request The request to run.
+   * @param isIdempotent Whether the request can be safely repeated.
+   * @returns The result of the request.
+   */
+  private static withRetry = async <T>(operation: string, request: () => Promise<T>, isIdempotent: boolean = true): Promise<T> => {
+    const maxRetries = config.octaneMaxRetries;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.withTimeout(operation, request(), config.octaneRequestTimeout);
+      } catch (error: unknown) {
+        if (attempt > maxRetries || !this.isRetryableError(error, isIdempotent)) {
+          throw error;
+        }
+        const delay = this.getRetryDelay(error, attempt);
+        this.logger.warn(`${operation}: attempt ${attempt} of ${maxRetries + 1} failed (${this.describeError(error)}), retrying in ${delay} ms ...`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  // the sdk does not support cancelling a request, so on timeout the request is abandoned, not aborted
+  private static withTimeout = async <T>(operation: string, promise: Promise<T>, timeoutSec: number): Promise<T> => {
+    if (!(timeoutSec > 0)) {
+      return promise;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(Object.assign(new Error(`${operation} timed out after ${timeoutSec} seconds`), { code: 'ETIMEDOUT' })), timeoutSec * 1000);
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static isRetryableError = (error: unknown, isIdempotent: boolean): boolean => {
+    const status = this.getErrorStatus(error);
+    const code = this.toRequestError(error).code;
+    if (!isIdempotent) {
+      return status === 429 || status === 503 || code === 'ECONNREFUSED';
+    }
+    if (status) {
+      return status === 429 || status >= 500;
+    }
+    return !!code && RETRYABLE_ERROR_CODES.includes(code);
+  }
+
+  // exponential backoff with jitter, unless the server asks for a specific delay
+  private static getRetryDelay = (error: unknown, attempt: number): number => {
+    const retryAfterMs = this.getRetryAfterMs(error);
+    if (retryAfterMs !== null) {
+      return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+    }
+    const backoff = Math.min(config.octaneRetryBaseDelay * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+  }
+
+  // Retry-After is either a number of seconds or an http date
+  private static getRetryAfterMs = (error: unknown): number | null => {
+    const headers = this.toRequestError(error).response?.headers;
+    const getHeader = headers?.get;
+    const retryAfter = typeof getHeader === 'function' ? getHeader.call(headers, 'retry-after') : headers?.['retry-after'];
+    if (retryAfter === undefined || retryAfter === null || retryAfter === '') {
+      return null;
+    }
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(`${retryAfter}`);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private static getErrorStatus = (error: unknown): number | undefined => {
+    const requestError = this.toRequestError(error);
+    return requestError.response?.status ?? requestError.status ?? requestError.statusCode;
+  }
+
+  private static describeError = (error: unknown): string => {
+    const status = this.getErrorStatus(error);
+    const { code, message } = this.toRequestError(error);
+    return [status && `status ${status}`, code, message].filter(Boolean).join(', ');
+  }
+
+  private static toRequestError = (error: unknown): RequestError => {
+    return typeof error === 'object' && error !== null ? error as RequestError : {};
+  }
+
   /**
    * Partitions an array into smaller arrays of a specified size.
    * @param array The array to partition.
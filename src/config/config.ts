@@ -28,18 +28,43 @@
  */
 
 import { context } from '@actions/github';
-import { getInput } from '@actions/core';
+import { getInput, setFailed } from '@actions/core';
+import { RepoConfigSettings } from './repoConfig';
+import { validateConfig } from './configValidator';
+import { registerSecret } from '../utils/redaction';
 
-interface Config {
+export interface Config {
   octaneUrl: string;
   octaneSharedSpace: number;
   octaneWorkspace: number;
+  octaneWorkspaces: number[]; // all the workspaces the discovered tests are synced to, the main one first
   octaneClientId: string;
   octaneClientSecret: string;
   digitalLabUrl?: string; // TODO find a better prefix
   digitalLabExecToken?: string; // TODO find a better prefix
   githubToken: string;
   minSyncInterval: number;
+  syncIntervalMode: string;
+  lockTimeout: number;
+  syncStateStore: string;
+  dryRun: boolean;
+  forceFullSync: boolean;
+  testRoots: string[];
+  excludePaths: string[];
+  testRunnerName: string; // template of the test runner name, empty for the default one
+  maxDiscoveryErrors: number;
+  discoveryConcurrency: number;
+  metadataCache: boolean;
+  metadataCacheDir: string;
+  mode: string;
+  configFile: string;
+  octaneMaxRetries: number;
+  octaneRetryBaseDelay: number;
+  octaneRequestTimeout: number;
+  testLauncher: string;
+  fakeLauncherScript?: string;
+  failOnTestFailure: boolean;
+  unstableAs: string;
   owner: string;
   repo: string;
   repoUrl: string;
@@ -53,32 +78,91 @@ if (!serverUrl || !owner || !repo) {
   throw new Error('Event should contain repository details!');
 }
 
+// unlike Number.parseInt, a value with trailing characters (e.g. '2m') is NaN instead of being truncated
+const toInt = (val: string): number => /^-?\d+$/.test(val.trim()) ? Number.parseInt(val) : Number.NaN;
+
+// a list input is given one item per line or comma separated
+const splitListInput = (val: string): string[] => val.split(/[\n,]/).map(item => item.trim()).filter(item => item);
+
+// an invalid ID is kept as NaN and reported by the validation
+const parseWorkspaces = (mainWorkspace: number, additionalWorkspaces: string[]): number[] => {
+  const workspaces = [mainWorkspace];
+  for (const val of additionalWorkspaces) {
+    const workspaceId = toInt(val);
+    if (!workspaces.includes(workspaceId)) {
+      workspaces.push(workspaceId);
+    }
+  }
+  return workspaces;
+};
+
+// an action input takes precedence over the value of the repository config file
+const getSetting = (name: string, fileValue?: string | number | boolean): string => getInput(name).trim() || (fileValue === undefined ? '' : `${fileValue}`);
+
+const getListSetting = (name: string, fileValue?: string[]): string[] => {
+  const items = splitListInput(getInput(name));
+  return items.length ? items : (fileValue ?? []);
+};
+
+// the settings of the repository config file are applied once it is loaded, before that only the inputs and the defaults are used
+const buildConfig = (repoConfig: RepoConfigSettings): Config => ({
+  octaneUrl: getInput('octaneUrl').trim(),
+  octaneSharedSpace: toInt(getInput('octaneSharedSpace').trim()),
+  octaneWorkspace: toInt(getInput('octaneWorkspace').trim()),
+  octaneWorkspaces: parseWorkspaces(toInt(getInput('octaneWorkspace').trim()), splitListInput(getInput('octaneWorkspaces'))),
+  octaneClientId: getInput('octaneClientId').trim(),
+  octaneClientSecret: getInput('octaneClientSecret').trim(),
+  digitalLabUrl: getSetting('digitalLabUrl', repoConfig.digitalLab?.url),
+  digitalLabExecToken: getInput('digitalLabExecToken').trim(),
+  githubToken: getInput('gitHubToken').trim(),
+  minSyncInterval: toInt(getSetting('minSyncInterval', repoConfig.minSyncInterval) || '2'),
+  syncIntervalMode: getSetting('syncIntervalMode', repoConfig.syncIntervalMode).toLowerCase() || 'cancel',
+  lockTimeout: toInt(getInput('lockTimeout').trim() || '10'),
+  syncStateStore: getInput('syncStateStore').trim().toLowerCase() || 'file',
+  dryRun: getInput('dryRun').trim().toLowerCase() === 'true',
+  forceFullSync: getInput('forceFullSync').trim().toLowerCase() === 'true',
+  testRoots: getListSetting('testRoots', repoConfig.testRoots),
+  excludePaths: getListSetting('excludePaths', repoConfig.excludePaths),
+  testRunnerName: getSetting('testRunnerName', repoConfig.testRunnerName),
+  mode: getInput('mode').trim().toLowerCase() || 'event',
+  configFile: getInput('configFile').trim(),
+  maxDiscoveryErrors: toInt(getInput('maxDiscoveryErrors').trim() || '10'),
+  discoveryConcurrency: toInt(getInput('discoveryConcurrency').trim() || '8'),
+  metadataCache: getInput('metadataCache').trim().toLowerCase() !== 'false',
+  metadataCacheDir: getInput('metadataCacheDir').trim(),
+  octaneMaxRetries: toInt(getInput('octaneMaxRetries').trim() || '3'),
+  octaneRetryBaseDelay: toInt(getInput('octaneRetryBaseDelay').trim() || '1000'),
+  octaneRequestTimeout: toInt(getInput('octaneRequestTimeout').trim() || '120'),
+  testLauncher: getInput('testLauncher').trim().toLowerCase() || 'hptools',
+  fakeLauncherScript: getInput('fakeLauncherScript').trim(),
+  failOnTestFailure: getSetting('failOnTestFailure', repoConfig.failOnTestFailure).toLowerCase() !== 'false',
+  unstableAs: getSetting('unstableAs', repoConfig.unstableAs).toLowerCase() || 'neutral',
+  owner: owner,
+  repo: repo,
+  repoUrl: `${serverUrl}/${owner}/${repo}.git`,
+  logLevel: toInt(getSetting('logLevel', repoConfig.logLevel) || '3'),
+  runnerWorkspacePath: process.env.RUNNER_WORKSPACE! // e.g., C:\GitHub_runner\_work\ufto-tests\
+});
+
 let _config: Config | undefined;
 let errorLoadingConfig: string;
 
 try {
-  _config = {
-    octaneUrl: getInput('octaneUrl').trim(),
-    octaneSharedSpace: Number.parseInt(getInput('octaneSharedSpace').trim()),
-    octaneWorkspace: Number.parseInt(getInput('octaneWorkspace').trim()),
-    octaneClientId: getInput('octaneClientId').trim(),
-    octaneClientSecret: getInput('octaneClientSecret').trim(),
-    digitalLabUrl: getInput('digitalLabUrl').trim(),
-    digitalLabExecToken: getInput('digitalLabExecToken').trim(),
-    githubToken: getInput('githubToken').trim(),
-    minSyncInterval: Number.parseInt(getInput('minSyncInterval').trim()),
-    owner: owner,
-    repo: repo,
-    repoUrl: `${serverUrl}/${owner}/${repo}.git`,
-    logLevel: Number.parseInt(getInput('logLevel').trim()),
-    runnerWorkspacePath: process.env.RUNNER_WORKSPACE! // e.g., C:\GitHub_runner\_work\ufto-tests\
-  };
+  _config = buildConfig({});
+  [_config.octaneClientSecret, _config.digitalLabExecToken, _config.githubToken].forEach(registerSecret);
+  const errors = validateConfig(_config);
+  if (errors.length) {
+    _config = undefined;
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
 } catch (error: any) {
   errorLoadingConfig = error.message;
 }
 
 const getConfig = (): Config => {
   if (!_config && errorLoadingConfig) {
+    // the config is loaded on import, before the error handling of the run, so the job is failed here
+    setFailed(errorLoadingConfig);
     throw { message: errorLoadingConfig };
   } else if (!_config) {
     throw { message: 'Config could not be loaded.' };
@@ -88,4 +172,14 @@ const getConfig = (): Config => {
 
 const config = getConfig();
 
-export { config };
+// the config object is updated in place, so the modules which imported it see the settings of the file
+const applyRepoConfig = (repoConfig: RepoConfigSettings): void => {
+  const updated = buildConfig(repoConfig);
+  const errors = validateConfig(updated);
+  if (errors.length) {
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
+  Object.assign(config, updated);
+};
+
+export { config, applyRepoConfig };
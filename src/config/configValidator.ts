@@ -0,0 +1,96 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from './config';
+import { ActionMode } from './ActionMode';
+import { SyncIntervalMode } from '../sync/SyncIntervalMode';
+import { SyncStateStoreType } from '../sync/SyncStateStore';
+import { TestLauncherType } from '../ft/TestLauncher';
+import { JobResult } from '../ft/JobResult';
+
+// checks the loaded config before anything runs, so a misconfiguration is reported with the name of the input instead of a later SDK error.
+// returns all the errors found
+const validateConfig = (cfg: Config): string[] => {
+  const errors: string[] = [];
+  const check = (isValid: boolean, inputName: string, msg: string) => {
+    if (!isValid) {
+      errors.push(`${inputName}: ${msg}`);
+    }
+  };
+  const checkOneOf = (val: string, validValues: string[], inputName: string) => {
+    check(validValues.includes(val), inputName, `must be one of ${validValues.join(', ')}, found '${val}'`);
+  };
+
+  check(isHttpUrl(cfg.octaneUrl), 'octaneUrl', `must be an http(s) URL, found '${cfg.octaneUrl}'`);
+  check(isPositiveInt(cfg.octaneSharedSpace), 'octaneSharedSpace', 'must be a numeric ID');
+  check(isPositiveInt(cfg.octaneWorkspace), 'octaneWorkspace', 'must be a numeric ID');
+  check(cfg.octaneWorkspaces.every(isPositiveInt), 'octaneWorkspaces', 'must contain only numeric IDs');
+  check(!!cfg.octaneClientId, 'octaneClientId', 'is required');
+  check(!!cfg.octaneClientSecret, 'octaneClientSecret', 'is required');
+  check(!!cfg.githubToken, 'gitHubToken', 'is required');
+
+  // the Digital Lab settings are optional, but the url and the exec token only work together
+  if (cfg.digitalLabUrl || cfg.digitalLabExecToken) {
+    check(!!cfg.digitalLabExecToken, 'digitalLabExecToken', 'is required when digitalLabUrl is set');
+    check(!!cfg.digitalLabUrl, 'digitalLabUrl', 'is required when digitalLabExecToken is set');
+    check(!cfg.digitalLabUrl || isHttpUrl(cfg.digitalLabUrl), 'digitalLabUrl', `must be an http(s) URL, found '${cfg.digitalLabUrl}'`);
+  }
+
+  check(isInRange(cfg.logLevel, 1, 5), 'logLevel', 'must be an integer between 1 and 5');
+  check(isInRange(cfg.minSyncInterval, 0), 'minSyncInterval', 'must be a number of minutes >= 0');
+  check(isInRange(cfg.maxDiscoveryErrors, 0), 'maxDiscoveryErrors', 'must be an integer >= 0');
+  check(isInRange(cfg.discoveryConcurrency, 1), 'discoveryConcurrency', 'must be an integer >= 1');
+  check(isInRange(cfg.lockTimeout, 0), 'lockTimeout', 'must be a number of minutes >= 0');
+  check(isInRange(cfg.octaneMaxRetries, 0), 'octaneMaxRetries', 'must be an integer >= 0');
+  check(isInRange(cfg.octaneRetryBaseDelay, 0), 'octaneRetryBaseDelay', 'must be a number of milliseconds >= 0');
+  check(isInRange(cfg.octaneRequestTimeout, 0), 'octaneRequestTimeout', 'must be a number of seconds >= 0');
+
+  checkOneOf(cfg.mode, Object.values(ActionMode), 'mode');
+  checkOneOf(cfg.syncIntervalMode, Object.values(SyncIntervalMode), 'syncIntervalMode');
+  checkOneOf(cfg.syncStateStore, Object.values(SyncStateStoreType), 'syncStateStore');
+  checkOneOf(cfg.testLauncher, Object.values(TestLauncherType), 'testLauncher');
+  checkOneOf(cfg.unstableAs, Object.values(JobResult), 'unstableAs');
+  return errors;
+};
+
+const isHttpUrl = (val?: string): boolean => {
+  try {
+    const url = new URL(val ?? '');
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const isPositiveInt = (val: number): boolean => Number.isInteger(val) && val > 0;
+
+// NaN (a value which is not a number) is never in range
+const isInRange = (val: number, min: number, max: number = Number.MAX_SAFE_INTEGER): boolean => Number.isInteger(val) && val >= min && val <= max;
+
+export { validateConfig };
@@ -0,0 +1,107 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from 'path';
+import yaml from 'yaml';
+import { context } from '@actions/github';
+import GitHubClient from '../client/githubClient';
+import { repoConfigSchema } from './repoConfigSchema';
+import { validateSchema } from './schemaValidator';
+
+const DEFAULT_CONFIG_FILE = '.octane-mbt.yml';
+
+// the settings which can be kept in the repository instead of being repeated in each workflow, the action inputs take precedence
+export interface RepoConfigSettings {
+  testRoots?: string[];
+  excludePaths?: string[];
+  testRunnerName?: string;
+  logLevel?: number;
+  minSyncInterval?: number;
+  syncIntervalMode?: string;
+  failOnTestFailure?: boolean;
+  unstableAs?: string;
+  digitalLab?: { url?: string };
+}
+
+interface RepoConfigFile extends RepoConfigSettings {
+  version: number;
+  branches?: { [pattern: string]: RepoConfigSettings };
+}
+
+// the file is read at the commit of the run through the GitHub API, as the repository is not checked out yet when the config is loaded.
+// a missing default config file is ignored, a missing config file given as input is an error
+const loadRepoConfig = async (configFile: string, branch?: string): Promise<RepoConfigSettings> => {
+  const fileName = configFile || DEFAULT_CONFIG_FILE;
+  const file = await GitHubClient.getRepoFile(path.posix.normalize(fileName.replace(/\\/g, '/')), context.sha);
+  if (!file) {
+    if (configFile) {
+      throw new Error(`Config file not found: ${fileName}`);
+    }
+    return {};
+  }
+  if (file.encoding !== 'base64') {
+    throw new Error(`Invalid ${fileName}: unsupported encoding '${file.encoding}'`);
+  }
+
+  let content: unknown;
+  try {
+    content = yaml.parse(Buffer.from(file.content, 'base64').toString('utf8'));
+  } catch (error: any) {
+    throw new Error(`Invalid ${fileName}: ${error.message}`);
+  }
+  const errors = validateSchema(content ?? {}, repoConfigSchema);
+  if (errors.length) {
+    throw new Error(`Invalid ${fileName}:\n  ${errors.join('\n  ')}`);
+  }
+
+  const { version, branches, ...settings } = content as RepoConfigFile;
+  // the overrides of all the matching patterns are applied in the order of the file
+  const overrides = Object.entries(branches ?? {}).filter(([pattern]) => branch && branchPatternToRegExp(pattern).test(branch));
+  return overrides.reduce((acc: RepoConfigSettings, [, branchSettings]) => ({ ...acc, ...branchSettings }), settings);
+};
+
+// the branch the run belongs to, for a pull request its target branch
+const getCurrentBranch = (): string | undefined => {
+  const payload = context.payload;
+  if (payload.pull_request) {
+    return payload.pull_request.base?.ref;
+  }
+  if (context.ref?.startsWith('refs/heads/')) {
+    return context.ref.slice(11);
+  }
+  return payload.repository?.default_branch;
+};
+
+// * matches within a single branch name segment, ** also matches /
+const branchPatternToRegExp = (pattern: string): RegExp => {
+  const re = pattern.split('**').map(part => part.split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')).join('.*');
+  return new RegExp(`^${re}$`);
+};
+
+export { loadRepoConfig, getCurrentBranch };
@@ -0,0 +1,82 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { JsonSchema } from './schemaValidator';
+
+// JSON schema of the repository config file (.octane-mbt.yml). The settings of a branch override the top level ones
+const settingsProperties: Record<string, JsonSchema> = {
+  testRoots: {
+    type: 'array',
+    items: { type: 'string', minLength: 1 },
+    description: 'Folders (globs) which contain the UFT One tests, <alias>=<glob> syncs a root to its own test runner'
+  },
+  excludePaths: {
+    type: 'array',
+    items: { type: 'string', minLength: 1 },
+    description: 'Paths (globs) which are skipped by the discovery'
+  },
+  testRunnerName: {
+    type: 'string',
+    minLength: 1,
+    description: 'Name of the test runner and of its folder of units, placeholders: {owner}, {repo}, {branch}, {workflow}'
+  },
+  logLevel: { type: 'integer', minimum: 1, maximum: 5 },
+  minSyncInterval: { type: 'integer', minimum: 0 },
+  syncIntervalMode: { type: 'string', enum: ['cancel', 'wait', 'dispatch'] },
+  failOnTestFailure: { type: 'boolean' },
+  unstableAs: { type: 'string', enum: ['success', 'failure', 'neutral'] },
+  digitalLab: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      url: { type: 'string', pattern: '^https?://', description: 'The exec token is a secret, it is given only as action input' }
+    }
+  }
+};
+
+export const repoConfigSchema: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'OpenText SDP / SDM MBT action config',
+  type: 'object',
+  required: ['version'],
+  additionalProperties: false,
+  properties: {
+    version: { type: 'integer', enum: [1] },
+    ...settingsProperties,
+    branches: {
+      type: 'object',
+      description: 'Settings by branch name, a name may contain * wildcards',
+      additionalProperties: {
+        type: 'object',
+        additionalProperties: false,
+        properties: settingsProperties
+      }
+    }
+  }
+};
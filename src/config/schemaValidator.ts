@@ -0,0 +1,121 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// the subset of JSON schema used by the repository config
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+// validates a value against the subset of JSON schema used by the repository config:
+// type, enum, minimum, maximum, minLength, pattern, items, properties, required and additionalProperties.
+// returns the errors, each prefixed by the path of the invalid value
+export const validateSchema = (value: unknown, schema: JsonSchema, valuePath: string = ''): string[] => {
+  const at = valuePath || '/';
+  if (schema.type && !hasType(value, schema.type)) {
+    return [`${at}: must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}, found ${describeType(value)}`];
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${at}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, found ${JSON.stringify(value)}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}: must be >= ${schema.minimum}, found ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: must be <= ${schema.maximum}, found ${value}`);
+    }
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: must not be empty`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: must match ${schema.pattern}, found ${JSON.stringify(value)}`);
+    }
+  }
+  const itemSchema = schema.items;
+  if (itemSchema && Array.isArray(value)) {
+    value.forEach((item, i) => errors.push(...validateSchema(item, itemSchema, `${valuePath}/${i}`)));
+  }
+  if (schema.type === 'object' && isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        errors.push(`${at}: missing required property '${key}'`);
+      }
+    }
+    for (const [key, val] of Object.entries(value)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        errors.push(...validateSchema(val, propSchema, `${valuePath}/${key}`));
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(schema.properties ?? {});
+        errors.push(`${at}: unknown property '${key}'${known.length ? `, valid properties: ${known.join(', ')}` : ''}`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(val, schema.additionalProperties, `${valuePath}/${key}`));
+      }
+    }
+  }
+  return errors;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const hasType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+};
@@ -0,0 +1,199 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from 'path';
+import * as Diff from 'diff';
+import { Document, Element } from '@xmldom/xmldom';
+import { Logger } from '../utils/logger';
+import { extractXmlFromCfb, getSafeDomParser } from '../utils/utils';
+
+const logger: Logger = new Logger('ContentSimilarity');
+
+const TEXT_XML = 'text/xml';
+const ELEMENT_NODE = 1;
+const _TSP = '.tsp';
+const _MTR = '.mtr';
+const ACTION_0 = 'action0';
+const UFT_COMPONENT_NODE_NAME = 'Component';
+const UFT_PARAM_ARGS_COLL_NODE_NAME = 'ArgumentsCollection';
+const UFT_PARAM_ARG_NAME_NODE_NAME = 'ArgName';
+const ARG_DIRECTION = 'ArgDirection';
+const UFT_PARAM_ARG_DEFAULT_VALUE_NODE_NAME = 'ArgDefaultValue';
+const GUID_PATTERN = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+
+// the similarity (0..1) of 2 versions of a file, used to tell a moved file from a deleted and an added one.
+// Test.tsp and resource.mtr are binary containers whose bytes change on every save, so their ComponentInfo xml and actions / parameters are compared instead
+const calculateContentSimilarity = (filePath: string, oldContent: Uint8Array, newContent: Uint8Array): number => {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === _TSP || ext === _MTR) {
+    try {
+      return getComponentInfoSimilarity(ext, Buffer.from(oldContent), Buffer.from(newContent));
+    } catch (error) {
+      logger.debug(`Cannot compare the ComponentInfo of [${filePath}], comparing the raw content: ${(error as Error).message}`);
+    }
+  }
+  return getLineSimilarity(Buffer.from(oldContent).toString('utf8'), Buffer.from(newContent).toString('utf8'));
+};
+
+const getComponentInfoSimilarity = (ext: string, oldContent: Buffer, newContent: Buffer): number => {
+  const oldDoc = parseComponentInfo(oldContent);
+  const newDoc = parseComponentInfo(newContent);
+
+  // the ids generated when a test or an action is created tell apart 2 files made from the same template, they are kept by a move
+  const oldIds = getGuids(oldDoc);
+  const newIds = getGuids(newDoc);
+  if (oldIds.length && newIds.length && !oldIds.some(id => newIds.includes(id))) {
+    return 0;
+  }
+  const xmlSimilarity = getTokenSimilarity(getLeafTokens(oldDoc), getLeafTokens(newDoc));
+
+  // the actions of a test, the parameters of an action
+  const getMembers = ext === _TSP ? getActionNames : getParameterSignatures;
+  const oldMembers = getMembers(oldDoc);
+  const newMembers = getMembers(newDoc);
+  if (!oldMembers.length && !newMembers.length) {
+    return xmlSimilarity;
+  }
+  return (xmlSimilarity + getTokenSimilarity(oldMembers, newMembers)) / 2;
+};
+
+const parseComponentInfo = (content: Buffer): Document => {
+  const xmlContent = extractXmlFromCfb(content).replace(/^\uFEFF/, '');
+  const doc = getSafeDomParser().parseFromString(xmlContent, TEXT_XML) as Document;
+  if (!doc.documentElement) {
+    throw new Error('No document element found in the ComponentInfo xml');
+  }
+  return doc;
+};
+
+// every element without child elements as <name>=<text>, so the formatting of the xml does not matter
+const getLeafTokens = (doc: Document): string[] => {
+  const tokens: string[] = [];
+  const elements = doc.getElementsByTagName('*');
+  for (let i = 0; i < elements.length; i++) {
+    const elem = elements.item(i);
+    if (elem && !hasChildElements(elem)) {
+      tokens.push(`${elem.tagName}=${elem.textContent?.trim() ?? ''}`);
+    }
+  }
+  return tokens;
+};
+
+// the text and attribute values which are GUIDs
+const getGuids = (doc: Document): string[] => {
+  const guids = new Set<string>();
+  const elements = doc.getElementsByTagName('*');
+  for (let i = 0; i < elements.length; i++) {
+    const elem = elements.item(i);
+    if (!elem) {
+      continue;
+    }
+    const values = hasChildElements(elem) ? [] : [elem.textContent?.trim() ?? ''];
+    for (let j = 0; j < elem.attributes.length; j++) {
+      values.push(elem.attributes.item(j)?.value ?? '');
+    }
+    values.filter(v => GUID_PATTERN.test(v)).forEach(v => guids.add(v.toLowerCase()));
+  }
+  return Array.from(guids);
+};
+
+const hasChildElements = (elem: Element): boolean => {
+  for (let i = 0; i < elem.childNodes.length; i++) {
+    if (elem.childNodes.item(i)?.nodeType === ELEMENT_NODE) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const getActionNames = (doc: Document): string[] => {
+  const names: string[] = [];
+  const componentNodes = doc.getElementsByTagName(UFT_COMPONENT_NODE_NAME);
+  for (let i = 0; i < componentNodes.length; i++) {
+    const actionName = componentNodes.item(i)?.textContent;
+    if (actionName && actionName.toLowerCase() !== ACTION_0) {
+      names.push(actionName);
+    }
+  }
+  return names;
+};
+
+const getParameterSignatures = (doc: Document): string[] => {
+  const signatures: string[] = [];
+  const argumentsCollection = doc.getElementsByTagName(UFT_PARAM_ARGS_COLL_NODE_NAME).item(0);
+  const argElements = argumentsCollection?.childNodes;
+  for (let i = 0; i < (argElements?.length ?? 0); i++) {
+    const argElem = argElements!.item(i);
+    if (argElem?.nodeType === ELEMENT_NODE) {
+      const name = (argElem as Element).getElementsByTagName(UFT_PARAM_ARG_NAME_NODE_NAME).item(0)?.textContent ?? '';
+      const direction = (argElem as Element).getElementsByTagName(ARG_DIRECTION).item(0)?.textContent ?? '0';
+      // the default values are set by the author, unlike the names of the template parameters
+      const defaultValue = (argElem as Element).getElementsByTagName(UFT_PARAM_ARG_DEFAULT_VALUE_NODE_NAME).item(0)?.textContent ?? '';
+      signatures.push(`${name}:${direction}=${defaultValue}`);
+    }
+  }
+  return signatures;
+};
+
+// the share of the tokens found in both lists, regardless of their order
+const getTokenSimilarity = (oldTokens: string[], newTokens: string[]): number => {
+  if (!oldTokens.length && !newTokens.length) {
+    return 1;
+  }
+  const counts = new Map<string, number>();
+  oldTokens.forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1));
+  let common = 0;
+  for (const t of newTokens) {
+    const count = counts.get(t) ?? 0;
+    if (count > 0) {
+      common++;
+      counts.set(t, count - 1);
+    }
+  }
+  return (2 * common) / (oldTokens.length + newTokens.length);
+};
+
+// the ratio of the unchanged lines to all the lines
+const getLineSimilarity = (oldStr: string, newStr: string): number => {
+  const differences = Diff.diffLines(oldStr, newStr, { ignoreWhitespace: true });
+  let unchangedLines = 0;
+  let totalLines = 0;
+
+  for (const part of differences) {
+    const lines = part.value.split('\n').length - 1; // Count lines (subtract 1 for trailing newline)
+    totalLines += lines;
+    if (!part.added && !part.removed) {
+      unchangedLines += lines; // Count unchanged lines
+    }
+  }
+
+  return totalLines > 0 ? unchangedLines / totalLines : 0;
+};
+
+export { calculateContentSimilarity };
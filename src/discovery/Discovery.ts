@@ -28,22 +28,27 @@
  */
 
 import { Logger } from '../utils/logger';
-import { exec } from '@actions/exec';
-import * as core from '@actions/core';
+import { exec, ExecOptions } from '@actions/exec';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { UftoTestType } from '../dto/ft/UftoTestType';
 import AutomatedTest from '../dto/ft/AutomatedTest';
 import ScmResourceFile from '../dto/ft/ScmResourceFile';
+import DiscoveryProblem from '../dto/ft/DiscoveryProblem';
+import PathFilter from './PathFilter';
 import { OctaneStatus } from '../dto/ft/OctaneStatus';
 import { Document, Element } from '@xmldom/xmldom';
 import UftoTestAction from '../dto/ft/UftoTestAction';
 import UftoTestParam from '../dto/ft/UftoTestParam';
+import { UftoParamDirection } from '../dto/ft/UftoParamDirection';
 import ScmChangesWrapper, { ScmAffectedFileWrapper } from './ScmChangesWrapper';
 import { getHeadCommitSha, getParentFolderFullPath, getTestPathPrefix, getTestType, isBlank, isTestMainFile, getSafeDomParser, extractXmlFromTspOrMtrFile, getGuiTestDocument, getApiTestDocument, getFileIfExist } from '../utils/utils';
 import { config } from '../config/config';
 import DiscoveryResult from './DiscoveryResult';
 import { TspParseError } from '../utils/TspParseError';
+import MetadataCache from './MetadataCache';
+import { createLimiter, Limiter } from '../utils/concurrency';
 
 const logger: Logger = new Logger('Discovery');
 
@@ -63,7 +68,32 @@ const UFT_PARAM_ARG_NAME_NODE_NAME = "ArgName";
 const UFT_PARAM_ARG_DEFAULT_VALUE_NODE_NAME = "ArgDefaultValue";
 const UFT_ACTION_DESCRIPTION_NODE_NAME = "Description";
 const ARG_DIRECTION = "ArgDirection";
+const API_ACTION_NODE_NAME = "Action";
+const API_ACTION_INTERNAL_NAME_ATTR = "internalName";
+const API_ACTION_USER_DEFINED_NAME_ATTR = "userDefinedName";
+const API_ACTION_DESCRIPTION_ATTR = "description";
+const API_MAIN_ACTION = "MainAction";
+const API_INPUT_PARAMS_FILE = "TestInputParameters.xsd";
+const API_OUTPUT_PARAMS_FILE = "TestOutputParameters.xsd";
+const XSD_NAMESPACE = "http://www.w3.org/2001/XMLSchema";
+const XSD_ELEMENT_NODE_NAME = "element";
+const XSD_NAME_ATTR = "name";
+const XSD_DEFAULT_ATTR = "default";
 const TEXT_XML = "text/xml";
+const GUI_TEST_FILE = "Test.tsp";
+const TSP_METADATA = "tsp";
+const MTR_METADATA = "mtr";
+
+// the metadata of the CFB files, without anything that depends on the location of the test, so it can be cached by the blob id
+interface GuiTestMetadata {
+  description: string | null;
+  actions: { name: string; logicalName?: string }[];
+}
+
+interface ActionMetadata {
+  parameters: UftoTestParam[];
+  description: string;
+}
 const _folders2skip = [".git", ".github"];
 const ADD = 'ADD';
 const DELETE = 'DELETE';
@@ -76,9 +106,17 @@ export default class Discovery {
   private _workDir: string;
   private _tests: AutomatedTest[] = [];
   private _scmResxFiles: ScmResourceFile[] = [];
-  constructor(workDir: string) {
+  private _problems: DiscoveryProblem[] = []; // a test which could not be parsed is skipped, the discovery continues with the other tests
+  private readonly _pathFilter: PathFilter;
+  private readonly _metadataCache: MetadataCache;
+  private readonly _limit: Limiter; // bounds the file system operations and test parsing of the scan running at the same time
+  private readonly _phaseTimings: [string, number][] = [];
+  constructor(workDir: string, pathFilter: PathFilter = PathFilter.fromConfig(), metadataCache: MetadataCache = MetadataCache.fromConfig()) {
     logger.debug('Discovery constructor ...');
     this._workDir = workDir;
+    this._pathFilter = pathFilter;
+    this._metadataCache = metadataCache;
+    this._limit = createLimiter(config.discoveryConcurrency);
   }
 
   public hasChanges(): boolean {
@@ -89,12 +127,12 @@ export default class Discovery {
     return this._tests;
   }
 
-  private getNewTests(): ReadonlyArray<AutomatedTest> {
-    return this.getTestsByOctaneStatus(OctaneStatus.NEW);
+  public getProblems(): ReadonlyArray<DiscoveryProblem> {
+    return this._problems;
   }
 
-  private getUpdatedTests(): ReadonlyArray<AutomatedTest> {
-    return this.getTestsByOctaneStatus(OctaneStatus.MODIFIED);
+  private getNewTests(): ReadonlyArray<AutomatedTest> {
+    return this.getTestsByOctaneStatus(OctaneStatus.NEW);
   }
 
   private getDeletedTests(): ReadonlyArray<AutomatedTest> {
@@ -117,16 +155,13 @@ export default class Discovery {
     return Object.freeze(this._scmResxFiles.filter(scmResxFile => scmResxFile.octaneStatus === status));
   }  
 
-  private getScmResxFiles(): ScmResourceFile[] {
-    return this._scmResxFiles;
-  }
-
-  private removeTestDuplicatedForUpdateTests() {
+  // an api test has 2 main files (<test>.st and actions.xml), so the same change can be reported twice
+  private removeDuplicatedTests() {
     const keys = new Set<string>();
     const testsToRemove: AutomatedTest[] = [];
 
-    for (const test of this.getUpdatedTests()) {
-        const key = `${test.packageName}_${test.name}`;
+    for (const test of this._tests) {
+        const key = `${test.octaneStatus}_${test.packageName}_${test.name}`;
         if (keys.has(key)) {
             testsToRemove.push(test);
         }
@@ -164,37 +199,108 @@ export default class Discovery {
     this._scmResxFiles.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
   }  
 
-  public async startScanning(oldCommit: string): Promise<DiscoveryResult> {
+  private sortProblems(): void {
+    this._problems.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private async timePhase<T>(phase: string, run: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await run();
+    } finally {
+      this._phaseTimings.push([phase, Date.now() - start]);
+    }
+  }
+
+  private logPhaseTimings(): void {
+    const total = this._phaseTimings.reduce((sum, [, ms]) => sum + ms, 0);
+    const phases = this._phaseTimings.map(([phase, ms]) => `${phase} ${(ms / 1000).toFixed(2)}s`).join(', ');
+    logger.info(`Discovery took ${(total / 1000).toFixed(2)}s: ${phases}`);
+  }
+
+  public async startScanning(oldCommit: string, forceFullSync: boolean = false): Promise<DiscoveryResult> {
     logger.info('BEGIN Scanning ...');
-    const didFullCheckout = await this.checkoutRepo();
+    const didFullCheckout = await this.timePhase('checkout', () => this.checkoutRepo());
     const newCommit = await getHeadCommitSha(this._workDir);
     let isFullSync = true;
-    if (didFullCheckout) {
+    if (didFullCheckout || forceFullSync) {
       await this.doFullDiscovery();
     } else {
       if (oldCommit) {
-        const affectedFiles = await ScmChangesWrapper.getScmChanges(this._workDir, oldCommit, newCommit);
-        await this.doSyncDiscovery(affectedFiles);
+        const affectedFiles = await this.timePhase('scm diff', () => ScmChangesWrapper.getScmChanges(this._workDir, oldCommit, newCommit, this._pathFilter));
+        await this.timePhase('change detection', () => this.doSyncDiscovery(affectedFiles));
         isFullSync = false;
       } else {
         await this.doFullDiscovery();
       }
     }
     logger.info(`isFullSync = ${isFullSync}`);
+    await this.timePhase('cache save', () => this._metadataCache.save(isFullSync));
+    this.logPhaseTimings();
     logger.info('END Scanning ...');
-    return new DiscoveryResult(newCommit, this._tests, this._scmResxFiles, isFullSync);
+    return new DiscoveryResult(newCommit, this._tests, this._scmResxFiles, isFullSync, forceFullSync, this._problems);
+  }
+
+  // scans only the changes of a pull request (its head versus the merge base with its base). Nothing is pulled or checked out in the working directory
+  public async startPreviewScanning(baseSha: string, headSha: string): Promise<DiscoveryResult> {
+    logger.info('BEGIN Preview scanning ...');
+    await this.timePhase('fetch', () => this.fetchCommits(baseSha, headSha));
+    const mergeBase = (await this.runGit(['merge-base', baseSha, headSha], true)) || baseSha;
+    logger.info(`Comparing ${headSha} with the merge base ${mergeBase}`);
+    const affectedFiles = await this.timePhase('scm diff', () => ScmChangesWrapper.getScmChanges(this._workDir, mergeBase, headSha, this._pathFilter));
+
+    // the head files are read from a temporary worktree, so the checkout shared with the push syncs is never switched
+    const repoDir = this._workDir;
+    const headDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'octane-mbt-preview-'));
+    try {
+      await this.runGit(['worktree', 'prune']);
+      await this.timePhase('worktree', () => this.runGit(['worktree', 'add', '--detach', headDir, headSha]));
+      this._workDir = headDir;
+      await this.timePhase('change detection', () => this.doSyncDiscovery(affectedFiles));
+    } finally {
+      this._workDir = repoDir;
+      await this.runGit(['worktree', 'remove', '--force', headDir], true);
+      await fs.promises.rm(headDir, { recursive: true, force: true });
+    }
+    await this.timePhase('cache save', () => this._metadataCache.save(false));
+    this.logPhaseTimings();
+    logger.info('END Preview scanning ...');
+    return new DiscoveryResult(headSha, this._tests, this._scmResxFiles, false, false, this._problems);
+  }
+
+  private async runGit(args: string[], ignoreFailure: boolean = false): Promise<string> {
+    const output: string[] = [];
+    const exitCode = await exec('git', args, {
+      cwd: this._workDir,
+      ignoreReturnCode: true,
+      listeners: { stdout: (data: Buffer) => output.push(data.toString()) }
+    });
+    if (exitCode !== 0 && !ignoreFailure) {
+      throw new Error(`git ${args[0]} failed with exit code ${exitCode}`);
+    }
+    return exitCode === 0 ? output.join('').trim() : '';
+  }
+
+  private addProblem(fullPath: string, error: any, testType: UftoTestType, isTestSkipped: boolean): void {
+    const problem: DiscoveryProblem = { path: this.getRelativePath(fullPath), message: error?.message ?? `${error}`, testType: testType.toString(), isTestSkipped };
+    logger.warn(`${isTestSkipped ? 'Skipping' : 'Problem in'} ${testType} test [${problem.path}]: ${problem.message}`);
+    this._problems.push(problem);
   }
 
   private async doFullDiscovery() {
-    await this.scanDirRecursively(this._workDir);
-    //not sure if we need this, tests and data tables might be already sorted
-    //this.sortTests();
-    //this.sortDataTables();
+    logger.debug(`Scanning with up to ${config.discoveryConcurrency} concurrent operations`);
+    await this.timePhase('scan', () => this.scanDirRecursively(this._workDir));
+    // the folders are scanned concurrently, so the order in which the tests and data tables are found is random
+    await this.timePhase('sort', async () => {
+      this.sortTests();
+      this.sortDataTables();
+      this.sortProblems();
+    });
   }
 
   private async doSyncDiscovery(affectedFiles: ScmAffectedFileWrapper[]) {
     await this.doChangeSetDetection(affectedFiles);
-    this.removeTestDuplicatedForUpdateTests();
+    this.removeDuplicatedTests();
     this.removeFalsePositiveDataTables(this.getDeletedTests(), this.getDeletedScmResxFiles());
     this.removeFalsePositiveDataTables(this.getNewTests(), this.getNewScmResxFiles());
     this.sortTests();
@@ -202,6 +308,7 @@ export default class Discovery {
   }
 
   private async doChangeSetDetection(affectedFiles: ScmAffectedFileWrapper[]) {
+    const changedActionsTestDirs = new Map<string, ScmAffectedFileWrapper>();
     for (const affectedFileWrapper of affectedFiles) {
       if (affectedFileWrapper.newPath.startsWith('"')) { //TODO: not sure if must handle this case
         //result.setHasQuotedPaths(true);
@@ -210,12 +317,44 @@ export default class Discovery {
       if (isTestMainFile(affectedFileFullPath)) {
         await this.handleTestChanges(affectedFileWrapper, affectedFileFullPath);
       } else if (this.isUftoActionFile(affectedFileWrapper.newPath)) {
-        await this.handleActionChanges(affectedFileWrapper, affectedFileFullPath);
+        this.handleActionChanges(affectedFileWrapper, affectedFileFullPath, changedActionsTestDirs);
+      } else if (this.isDataTableFile(affectedFileWrapper.newPath)) {
+        await this.handleDataTableChanges(affectedFileWrapper, affectedFileFullPath);
       }
     }
+    // must run after all the test main files were handled, so tests that changed anyway are not parsed twice
+    await this.handleTestsOfChangedActions(changedActionsTestDirs);
+  }
+  // an action's resource.mtr is located at <test folder>/<action folder>/resource.mtr
+  private handleActionChanges(affFileWrapper: ScmAffectedFileWrapper, affFileFullPath: string, changedActionsTestDirs: Map<string, ScmAffectedFileWrapper>) {
+    const testDirFullPath = path.dirname(getParentFolderFullPath(affFileFullPath));
+    if (!changedActionsTestDirs.has(testDirFullPath)) {
+      changedActionsTestDirs.set(testDirFullPath, affFileWrapper);
+    }
   }
-  private async handleActionChanges(affectedFileWrapper: ScmAffectedFileWrapper, affectedFileFullPath: string) {
-    // TODO: not implemented yet in java
+  // re-parse the tests whose actions have changed (parameters, description) while their main file has not
+  private async handleTestsOfChangedActions(changedActionsTestDirs: Map<string, ScmAffectedFileWrapper>) {
+    for (const [testDirFullPath, affFileWrapper] of changedActionsTestDirs) {
+      if (!fs.existsSync(testDirFullPath)) {
+        continue; // the whole test was deleted, already handled by its main file
+      }
+      const items = await fs.promises.readdir(testDirFullPath) ?? [];
+      const testType = await this.getTestType(items);
+      if (testType !== UftoTestType.GUI) {
+        logger.debug(`handleTestsOfChangedActions: ${testDirFullPath} is not a gui test folder, skipping`);
+        continue;
+      }
+      const relativePath = this.getRelativePath(testDirFullPath);
+      if (this._tests.some(t => path.join(t.packageName, t.name) === relativePath)) {
+        continue;
+      }
+      const test = await this.createAutomatedTestEx(testDirFullPath, testType, affFileWrapper.oldId, affFileWrapper.newId);
+      if (!test) {
+        continue;
+      }
+      test.octaneStatus = OctaneStatus.MODIFIED;
+      this._tests.push(test);
+    }
   }
   private isUftoActionFile(filePath: string) {
     return path.basename(filePath).toLowerCase() === RESOURCE_MTR;
@@ -236,6 +375,15 @@ export default class Discovery {
         resxFile.octaneStatus = OctaneStatus.DELETED;
         this._scmResxFiles.push(resxFile);
       }
+    } else if (affFileWrapper.changeType === EDIT) {
+      // only a moved data table requires an update in Octane, a content change does not
+      if (fileExists && !isBlank(affFileWrapper.oldPath) && affFileWrapper.oldPath !== affFileWrapper.newPath) {
+        resxFile.oldRelativePath = path.normalize(affFileWrapper.oldPath!);
+        resxFile.oldName = path.basename(affFileWrapper.oldPath!);
+        resxFile.isMoved = true;
+        resxFile.octaneStatus = OctaneStatus.MODIFIED;
+        this._scmResxFiles.push(resxFile);
+      }
     }
   }
   private async handleTestChanges(affFileWrapper: ScmAffectedFileWrapper, affFileFullPath: string) {
@@ -245,6 +393,9 @@ export default class Discovery {
     const test = fileExists ?
         await this.createAutomatedTestEx(testDirFullPath, testType, affFileWrapper.oldId, affFileWrapper.newId) :
         await this.createAutomatedTest(testDirFullPath, testType, affFileWrapper.oldId, affFileWrapper.newId);
+    if (!test) {
+      return;
+    }
     if (affFileWrapper.changeType === ADD) {
       fileExists && this._tests.push(test);
     } else if (affFileWrapper.changeType === DELETE) {
@@ -287,29 +438,32 @@ export default class Discovery {
   }
 
   private async scanDirRecursively(subDirFullPath: string) {
-    if (_folders2skip.includes(path.basename(subDirFullPath))) {
+    if (_folders2skip.includes(path.basename(subDirFullPath)) || !this._pathFilter.isTraversable(this.getRelativePath(subDirFullPath))) {
       return;
     }
 
-    const items = await fs.promises.readdir(subDirFullPath) ?? [];
+    const items = await this._limit(() => fs.promises.readdir(subDirFullPath)) ?? [];
     const testType = await this.getTestType(items);
     if (testType.isNone()) {
-      for (const item of items) {
+      // only the leaf operations take a slot of the limiter, a folder waiting for its subfolders does not hold one
+      await Promise.all(items.map(async item => {
         const fullPath = path.join(subDirFullPath, item);
-        const stats = await fs.promises.stat(fullPath);
+        const stats = await this._limit(() => fs.promises.stat(fullPath));
         if (stats.isDirectory()) {
           await this.scanDirRecursively(fullPath);
-        } else if (this.isDataTableFile(item)) {
+        } else if (this.isDataTableFile(item) && this._pathFilter.isIncluded(this.getRelativePath(fullPath))) {
           const scmResxFile = this.createScmResxFile(fullPath);
           this._scmResxFiles.push(scmResxFile);
         }
-      }
-    } else if (testType !== UftoTestType.API) {
-      const automTest = await this.createAutomatedTestEx(subDirFullPath, testType);
-      this._tests.push(automTest);
+      }));
+    } else if (this._pathFilter.isIncluded(this.getRelativePath(subDirFullPath))) {
+      const automTest = await this._limit(() => this.createAutomatedTestEx(subDirFullPath, testType));
+      automTest && this._tests.push(automTest);
     }
   }
 
+  // the package stays relative to the repository root, also for a test root with an alias: it is the prefix of the repository path of the units,
+  // which the execution resolves in the checkout, and a test root glob may match several folders, so a path relative to it would be ambiguous
   private async createAutomatedTest(subDirFullPath: string, testType: UftoTestType, oldId?: string, newId?: string): Promise<AutomatedTest> {
     const testName = path.basename(subDirFullPath);
     const relativePath = this.getRelativePath(subDirFullPath);
@@ -332,42 +486,156 @@ export default class Discovery {
     return test;
   }
 
-  private async createAutomatedTestEx(subDirFullPath: string, testType: UftoTestType, oldId?: string, newId?: string): Promise<AutomatedTest> {
+  // returns null if the test could not be parsed, the problem is recorded instead of failing the discovery
+  private async createAutomatedTestEx(subDirFullPath: string, testType: UftoTestType, oldId?: string, newId?: string): Promise<AutomatedTest | null> {
     const test = await this.createAutomatedTest(subDirFullPath, testType, oldId, newId);
-    const doc = await this.getDocument(subDirFullPath, testType);
+    const actionPathPrefix = this.getActionPathPrefix(test, false);
+    if (testType === UftoTestType.GUI) {
+      let metadata: GuiTestMetadata;
+      try {
+        metadata = await this.getGuiTestMetadata(subDirFullPath, test.name);
+      } catch (error: any) {
+        this.addProblem(subDirFullPath, error, testType, true);
+        return null;
+      }
+      test.description = metadata.description ?? "";
+      test.actions = await this.createGuiActions(metadata, actionPathPrefix, test.name, subDirFullPath);
+      return test;
+    }
+
+    let doc: Document | null;
+    try {
+      doc = await this.getDocument(subDirFullPath, testType);
+    } catch (error: any) {
+      this.addProblem(subDirFullPath, error, testType, true);
+      return null;
+    }
     let descr = this.getTestDescription(doc, testType);
     descr = this.convertToHtmlFormatIfRequired(descr);
     test.description = descr ?? "";
 
-    // discover actions only for mbt toolType and gui tests
-    if (testType === UftoTestType.GUI) {
-      const actionPathPrefix = this.getActionPathPrefix(test, false);
-      const actions = await this.parseActionsAndParameters(doc, actionPathPrefix, test.name, subDirFullPath);
-      test.actions = actions;    
+    if (testType === UftoTestType.API) {
+      test.actions = await this.parseApiActionsAndParameters(doc, actionPathPrefix, test.name, subDirFullPath);
     }
 
     return test;
   }
 
-  async parseActionsAndParameters(doc: Document | null, actionPathPrefix: string, testName: string, dirPath: string): Promise<UftoTestAction[]> {
+  // parsing a Test.tsp is slow, so its metadata is cached by the blob id of the file
+  private async getGuiTestMetadata(subDirFullPath: string, testName: string): Promise<GuiTestMetadata> {
+    const parse = async (): Promise<GuiTestMetadata> => {
+      const doc = (await this.getDocument(subDirFullPath, UftoTestType.GUI))!;
+      const actionMap = this.parseActionComponents(doc, testName);
+      this.fillActionsLogicalName(doc, actionMap, '');
+      return {
+        description: this.convertToHtmlFormatIfRequired(this.getTestDescription(doc, UftoTestType.GUI)),
+        actions: Array.from(actionMap.values(), a => a.logicalName ? { name: a.name, logicalName: a.logicalName } : { name: a.name })
+      };
+    };
+    const tspFile = await getFileIfExist(subDirFullPath, GUI_TEST_FILE);
+    return tspFile ? this._metadataCache.getOrParse(TSP_METADATA, tspFile, parse) : parse();
+  }
+
+  async parseApiActionsAndParameters(doc: Document | null, actionPathPrefix: string, testName: string, dirPath: string): Promise<UftoTestAction[]> {
     const actions: UftoTestAction[] = [];
 
     if (!doc) {
-        logger.warn("received null gui test document, actions will not be parsed");
-    } else {
-        const actionMap = this.parseActionComponents(doc, testName);
-        this.fillActionsLogicalName(doc, actionMap, actionPathPrefix);
-        actions.push(...Array.from(actionMap.values()));
+      logger.warn("received null api test document, actions will not be parsed");
+      return actions;
+    }
+
+    // Actions.xml
+    // <Actions>
+    // <Action internalName="MainAction" userDefinedName="APITest1" description="..." />
+    // </Actions>
+    const actionNodes = doc.getElementsByTagName(API_ACTION_NODE_NAME);
+    for (let i = 0; i < actionNodes.length; i++) {
+      const attributes = actionNodes.item(i)?.attributes;
+      const actionName = attributes?.getNamedItem(API_ACTION_INTERNAL_NAME_ATTR)?.nodeValue;
+      if (!attributes || !actionName) {
+        continue;
+      }
+      const action: UftoTestAction = {
+        name: actionName,
+        logicalName: attributes.getNamedItem(API_ACTION_USER_DEFINED_NAME_ATTR)?.nodeValue || actionName,
+        testName: testName,
+        description: attributes.getNamedItem(API_ACTION_DESCRIPTION_ATTR)?.nodeValue ?? '',
+        octaneStatus: OctaneStatus.NEW
+      };
+      this.setActionPath(action, actionPathPrefix);
+      // the parameters of the main action are defined at test level, the ones of the other actions in their own folder
+      const paramsDirPath = actionName === API_MAIN_ACTION ? dirPath : path.join(dirPath, actionName);
+      action.parameters = [];
+      const xsdFiles: [string, UftoParamDirection][] = [[API_INPUT_PARAMS_FILE, UftoParamDirection.IN], [API_OUTPUT_PARAMS_FILE, UftoParamDirection.OUT]];
+      for (const [xsdFileName, direction] of xsdFiles) {
+        const xsdPath = path.join(paramsDirPath, xsdFileName);
         try {
-            await this.readParameters(dirPath, actionMap);
+          action.parameters.push(...await this.parseApiParamsXsdFile(xsdPath, direction));
         } catch (error: any) {
-            logger.error(`Failed to parse action's parameters: ${error?.message}`);
+          // the test is still synced, without the parameters of the broken file
+          this.addProblem(xsdPath, error, UftoTestType.API, false);
         }
+      }
+      actions.push(action);
     }
 
     return actions;
   }
 
+  // TestInputParameters.xsd / TestOutputParameters.xsd
+  // <xs:element name="Arguments"><xs:complexType><xs:sequence>
+  //   <xs:element name="Param1" type="xs:string" default="..." />
+  // </xs:sequence></xs:complexType></xs:element>
+  private async parseApiParamsXsdFile(xsdFile: string, direction: UftoParamDirection): Promise<UftoTestParam[]> {
+    const params: UftoTestParam[] = [];
+    if (!fs.existsSync(xsdFile)) {
+      return params;
+    }
+
+    const xmlContent = await fs.promises.readFile(xsdFile, 'utf8');
+    const cleanXmlContent = xmlContent.replace(/^\uFEFF/, ''); // Remove BOM if present
+    const doc = getSafeDomParser().parseFromString(cleanXmlContent, TEXT_XML) as Document;
+    const elements = doc.getElementsByTagNameNS(XSD_NAMESPACE, XSD_ELEMENT_NODE_NAME);
+    for (let i = 0; i < elements.length; i++) {
+      const elem = elements.item(i);
+      const name = elem?.getAttribute(XSD_NAME_ATTR);
+      // only the leaf elements are parameters, the root element just wraps them
+      if (!elem || !name || elem.getElementsByTagNameNS(XSD_NAMESPACE, XSD_ELEMENT_NODE_NAME).length) {
+        continue;
+      }
+      const param: UftoTestParam = {
+        name: name,
+        direction: direction,
+        octaneStatus: OctaneStatus.NEW
+      };
+      if (elem.hasAttribute(XSD_DEFAULT_ATTR)) {
+        param.defaultValue = elem.getAttribute(XSD_DEFAULT_ATTR) ?? '';
+      }
+      params.push(param);
+    }
+
+    return params;
+  }
+
+  private async createGuiActions(metadata: GuiTestMetadata, actionPathPrefix: string, testName: string, dirPath: string): Promise<UftoTestAction[]> {
+    const actionMap = new Map<string, UftoTestAction>();
+    for (const { name, logicalName } of metadata.actions) {
+      const action: UftoTestAction = { name, testName, octaneStatus: OctaneStatus.NEW };
+      if (logicalName) {
+        action.logicalName = logicalName;
+        this.setActionPath(action, actionPathPrefix);
+      }
+      actionMap.set(name, action);
+    }
+    try {
+        await this.readParameters(dirPath, actionMap);
+    } catch (error: any) {
+        logger.error(`Failed to parse action's parameters: ${error?.message}`);
+    }
+
+    return Array.from(actionMap.values());
+  }
+
   private fillActionsLogicalName(document: Document, actionMap: Map<string, UftoTestAction>, actionPathPrefix: string): void {
     const dependencyNodes = document.getElementsByTagName(UFT_DEPENDENCY_NODE_NAME);
     for (let i = 0; i < dependencyNodes.length; i++) {
@@ -405,13 +673,16 @@ export default class Discovery {
       try {
         const resourceMtrFile = await getFileIfExist(actionFolder, RESOURCE_MTR);
         if (resourceMtrFile) {
-          await this.parseActionMtrFile(resourceMtrFile, action);
+          const { parameters, description } = await this._metadataCache.getOrParse(MTR_METADATA, resourceMtrFile, () => this.parseActionMtrFile(resourceMtrFile));
+          action.parameters = parameters;
+          action.description = description;
         } else {
           logger.warn(`resource.mtr file for action ${actionName} does not exist`);
         }
       } catch (error) {
         action.parameters = [];
         logger.warn(`folder for action ${actionName} does not exist: ${(error as Error).message}`);
+        this.addProblem(path.join(actionFolder, RESOURCE_MTR), error, UftoTestType.GUI, false);
       }
     }
   }
@@ -438,7 +709,7 @@ export default class Discovery {
     return actionMap;
   }
 
-  private async parseActionMtrFile(resourceMtrFile: string, action: UftoTestAction): Promise<void> {
+  private async parseActionMtrFile(resourceMtrFile: string): Promise<ActionMetadata> {
     const params: UftoTestParam[] = [];
     const xmlContent = await extractXmlFromTspOrMtrFile(resourceMtrFile);
     const parser = getSafeDomParser();
@@ -465,8 +736,10 @@ export default class Discovery {
         }
     }
 
-    action.parameters = params;
-    action.description = doc.getElementsByTagName(UFT_ACTION_DESCRIPTION_NODE_NAME).item(0)?.textContent ?? '';
+    return {
+      parameters: params,
+      description: doc.getElementsByTagName(UFT_ACTION_DESCRIPTION_NODE_NAME).item(0)?.textContent ?? ''
+    };
   }
 
   private convertToHtmlFormatIfRequired(description: string | null): string | null {
@@ -570,7 +843,7 @@ export default class Discovery {
 
   private createScmResxFile(fullFilePath: string, oldId?: string, newId?: string): ScmResourceFile {
     const resxFile: ScmResourceFile = {
-        name: fullFilePath,
+        name: path.basename(fullFilePath),
         relativePath: this.getRelativePath(fullFilePath),
         octaneStatus: OctaneStatus.NEW,
         changeSetSrc: oldId,
@@ -587,70 +860,14 @@ export default class Discovery {
   private async checkoutRepo(): Promise<boolean> {
     logger.info('BEGIN checkoutRepo ...');
     try {
-      const token = core.getInput('githubToken', { required: true });
       let didFullCheckout = false;
-
-      const authRepoUrl = config.repoUrl.replace('https://', `https://x-access-token:${token}@`);
-      logger.debug(`Expected authRepoUrl: ${authRepoUrl}`);
-
-      // Filter process.env to exclude undefined values
-      const filteredEnv: { [key: string]: string } = {};
-      for (const [key, value] of Object.entries(process.env)) {
-        if (value !== undefined) {
-          filteredEnv[key] = value;
-        }
-      }
-
-      // Configure Git options with common properties
-      const gitOptions = {
-        cwd: this._workDir,     // Common working directory
-        ignoreReturnCode: true, // Ignore non-zero exit codes by default
-        silent: false,          // Keep false for debugging
-        env: filteredEnv,       // Use filtered env with only string values
-        listeners: {            // Common listeners for all Git commands
-          stderr: (data: Buffer) => printWarn(data) // for debug only
-        }
-      };
-
-      function printWarn (data: Buffer) {
-        if (data) {
-          const msg = data.toString().trim();
-          logger.warn(msg);
-        }
-      };
+      const gitOptions = this.getGitOptions();
 
       // Check if _work\ufto-tests is a Git repository
       const gitDir = path.join(this._workDir, '.git');
       if (fs.existsSync(gitDir)) {
         logger.info('Working directory is a Git repo, checking remote URL...');
-
-        // Get the current remote URL with specific stdout capture
-        let currentRemoteUrl = '';
-        const getUrlOutput: string[] = [];
-        const getUrlExitCode = await exec('git', ['remote', 'get-url', 'origin'], {
-          ...gitOptions,
-          listeners: {
-            ...gitOptions.listeners,
-            stdout: (data: Buffer) => getUrlOutput.push(data.toString().trim())
-          }
-        });
-        if (getUrlExitCode === 0) {
-          currentRemoteUrl = getUrlOutput.join('').trim();
-          logger.debug(`Current remote URL: ${currentRemoteUrl}`);
-        } else {
-          logger.warn('Failed to get current remote URL, proceeding with set-url');
-        }
-
-        // Compare current URL with base repoUrl (ignoring token)
-        if (currentRemoteUrl == authRepoUrl) {
-          logger.info('Remote URL base matches.');
-        } else {
-          logger.info('Remote URL does not match, setting to authenticated URL...');
-          const setUrlExitCode = await exec('git', ['remote', 'set-url', 'origin', authRepoUrl], gitOptions);
-          if (setUrlExitCode !== 0) {
-            throw new Error(`git remote set-url failed with exit code ${setUrlExitCode}`);
-          }
-        }
+        await this.setAuthenticatedRemote();
 
         // Perform the pull
         logger.info('Pulling updates...');
@@ -660,7 +877,7 @@ export default class Discovery {
         }
       } else {
         logger.info(`Cloning repository into ${this._workDir}`);
-        const cloneExitCode = await exec('git', ['clone', authRepoUrl, '.'], gitOptions);
+        const cloneExitCode = await exec('git', ['clone', this.getAuthRepoUrl(), '.'], gitOptions);
         if (cloneExitCode !== 0) {
           throw new Error(`git clone failed with exit code ${cloneExitCode}`);
         }
@@ -673,5 +890,91 @@ export default class Discovery {
       throw error;
     }
   }
+
+  // only fetches the given commits, the current checkout (e.g. detached on the merge ref of a pull request) is left as is
+  private async fetchCommits(...commits: string[]): Promise<void> {
+    logger.info(`BEGIN fetchCommits ${commits.join(' ')} ...`);
+    if (!fs.existsSync(path.join(this._workDir, '.git'))) {
+      logger.info(`Initializing a repository in ${this._workDir}`);
+      await this.runGit(['init', '-q']);
+    }
+    await this.setAuthenticatedRemote();
+    const fetchExitCode = await exec('git', ['fetch', 'origin', ...commits], this.getGitOptions());
+    if (fetchExitCode !== 0) {
+      throw new Error(`git fetch failed with exit code ${fetchExitCode}`);
+    }
+    logger.info('END fetchCommits ...');
+  }
+
+  private async setAuthenticatedRemote(): Promise<void> {
+    const authRepoUrl = this.getAuthRepoUrl();
+    logger.debug(`Expected authRepoUrl: ${authRepoUrl}`);
+    const gitOptions = this.getGitOptions();
+
+    // Get the current remote URL with specific stdout capture
+    let currentRemoteUrl = '';
+    const getUrlOutput: string[] = [];
+    const getUrlExitCode = await exec('git', ['remote', 'get-url', 'origin'], {
+      ...gitOptions,
+      listeners: {
+        ...gitOptions.listeners,
+        stdout: (data: Buffer) => getUrlOutput.push(data.toString().trim())
+      }
+    });
+    if (getUrlExitCode === 0) {
+      currentRemoteUrl = getUrlOutput.join('').trim();
+      logger.debug(`Current remote URL: ${currentRemoteUrl}`);
+    } else {
+      logger.warn('Failed to get current remote URL, adding it...');
+      const addUrlExitCode = await exec('git', ['remote', 'add', 'origin', authRepoUrl], gitOptions);
+      if (addUrlExitCode !== 0) {
+        throw new Error(`git remote add failed with exit code ${addUrlExitCode}`);
+      }
+      return;
+    }
+
+    // Compare current URL with base repoUrl (ignoring token)
+    if (currentRemoteUrl == authRepoUrl) {
+      logger.info('Remote URL base matches.');
+    } else {
+      logger.info('Remote URL does not match, setting to authenticated URL...');
+      const setUrlExitCode = await exec('git', ['remote', 'set-url', 'origin', authRepoUrl], gitOptions);
+      if (setUrlExitCode !== 0) {
+        throw new Error(`git remote set-url failed with exit code ${setUrlExitCode}`);
+      }
+    }
+  }
+
+  private getAuthRepoUrl(): string {
+    return config.repoUrl.replace('https://', `https://x-access-token:${config.githubToken}@`);
+  }
+
+  private getGitOptions(): ExecOptions {
+    // Filter process.env to exclude undefined values
+    const filteredEnv: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(process.env)) {
+      if (value !== undefined) {
+        filteredEnv[key] = value;
+      }
+    }
+
+    // Configure Git options with common properties
+    return {
+      cwd: this._workDir,     // Common working directory
+      ignoreReturnCode: true, // Ignore non-zero exit codes by default
+      silent: false,          // Keep false for debugging
+      env: filteredEnv,       // Use filtered env with only string values
+      listeners: {            // Common listeners for all Git commands
+        stderr: (data: Buffer) => printWarn(data) // for debug only
+      }
+    };
+
+    function printWarn (data: Buffer) {
+      if (data) {
+        const msg = data.toString().trim();
+        logger.warn(msg);
+      }
+    };
+  }
 }
 
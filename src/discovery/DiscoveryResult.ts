@@ -26,10 +26,13 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import * as path from 'path';
 import { Logger } from '../utils/logger';
 import AutomatedTest from '../dto/ft/AutomatedTest';
 import ScmResourceFile from '../dto/ft/ScmResourceFile';
 import { OctaneStatus } from '../dto/ft/OctaneStatus';
+import UftoTestAction from '../dto/ft/UftoTestAction';
+import DiscoveryProblem from '../dto/ft/DiscoveryProblem';
 
 const logger: Logger = new Logger('Discovery');
 
@@ -39,12 +42,21 @@ export default class DiscoveryResult {
   private readonly _hasChanges: boolean = false;
   private readonly _newCommit: string;
   private readonly _isFullSync: boolean;
-  constructor(newCommit: string, tests: AutomatedTest[], scmResxFiles: ScmResourceFile[], isFullSync: boolean) {
+  private readonly _isReconcile: boolean;
+  private readonly _orphanActions: UftoTestAction[] = [];
+  private readonly _problems: ReadonlyArray<DiscoveryProblem>;
+  // the paths the result is the source of truth for: a full sync deletes only the data tables located within them
+  private readonly _scope: (relativePath: string) => boolean;
+  constructor(newCommit: string, tests: AutomatedTest[], scmResxFiles: ScmResourceFile[], isFullSync: boolean, isReconcile: boolean = false, problems: DiscoveryProblem[] = [],
+    scope: (relativePath: string) => boolean = () => true) {
     logger.debug('DiscoveryResult constructor ...');
     this._newCommit = newCommit;
     this._isFullSync = isFullSync;
+    this._isReconcile = isReconcile;
     this._tests = Object.freeze(tests);
     this._scmResxFiles = Object.freeze(scmResxFiles);
+    this._problems = Object.freeze(problems);
+    this._scope = scope;
     this._hasChanges = tests.length > 0 || scmResxFiles.length > 0;
   }
 
@@ -52,6 +64,27 @@ export default class DiscoveryResult {
     return this._isFullSync;
   }
 
+  // a full sync which also resets the units of the test runner that no longer exist in the repository
+  public isReconcile(): boolean {
+    return this._isReconcile;
+  }
+
+  public getOrphanActions(): ReadonlyArray<UftoTestAction> {
+    return this._orphanActions;
+  }
+
+  public addOrphanActions(actions: UftoTestAction[]): void {
+    this._orphanActions.push(...actions);
+  }
+
+  public getProblems(): ReadonlyArray<DiscoveryProblem> {
+    return this._problems;
+  }
+
+  public isInScope(relativePath: string): boolean {
+    return this._scope(relativePath);
+  }
+
   public getNewCommit(): string {
     return this._newCommit;
   }
@@ -79,5 +112,26 @@ export default class DiscoveryResult {
   public getScmResxFiles(): ReadonlyArray<ScmResourceFile> {
     return this._scmResxFiles;
   }
+
+  // a new result with only the tests and data tables whose relative path matches, e.g. the ones of a single test root. Its scope is narrowed the same way
+  public filter(predicate: (relativePath: string) => boolean): DiscoveryResult {
+    const tests = this._tests.filter(t => predicate(path.join(t.packageName, t.name)));
+    const scmResxFiles = this._scmResxFiles.filter(f => predicate(f.relativePath));
+    const problems = this._problems.filter(p => predicate(p.path));
+    return new DiscoveryResult(this._newCommit, tests, scmResxFiles, this._isFullSync, this._isReconcile, problems, p => this._scope(p) && predicate(p));
+  }
+
+  // the same tests and data tables, only the scope is narrowed
+  public restrictScope(predicate: (relativePath: string) => boolean): DiscoveryResult {
+    return new DiscoveryResult(this._newCommit, [...this._tests], [...this._scmResxFiles], this._isFullSync, this._isReconcile, [...this._problems],
+      p => this._scope(p) && predicate(p));
+  }
+
+  // a deep copy, as preparing the sync updates the tests and their actions with the state of the target workspace
+  public clone(): DiscoveryResult {
+    // the test type is kept as is, a clone would lose the methods of its class
+    const tests = this._tests.map(t => ({ ...structuredClone(t), uftOneTestType: t.uftOneTestType }));
+    return new DiscoveryResult(this._newCommit, tests, structuredClone([...this._scmResxFiles]), this._isFullSync, this._isReconcile, [...this._problems], this._scope);
+  }
 }
 
@@ -0,0 +1,120 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as git from 'isomorphic-git';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+
+const logger: Logger = new Logger('MetadataCache');
+const UTF8 = 'utf8';
+const CACHE_FILE = 'discovery-metadata-v1.json'; // the version changes with the format of the entries
+const DEFAULT_CACHE_DIR = '.octane-mbt-cache';
+
+// keeps the metadata parsed from the CFB files (Test.tsp, resource.mtr) by the git blob id of the file, so an unchanged file
+// is not parsed again by the next runs. the entries must not depend on the location of the file, as the same blob may be moved
+export default class MetadataCache {
+  private readonly _cacheFile: string | null;
+  private _entries: Map<string, unknown> | null = null;
+  private _loading: Promise<Map<string, unknown>> | null = null;
+  private readonly _usedKeys = new Set<string>();
+  private _hits = 0;
+  private _misses = 0;
+
+  // a null directory disables the cache
+  constructor(cacheDir: string | null) {
+    this._cacheFile = cacheDir ? path.join(cacheDir, CACHE_FILE) : null;
+  }
+
+  public static fromConfig(): MetadataCache {
+    if (!config.metadataCache) {
+      return new MetadataCache(null);
+    }
+    return new MetadataCache(config.metadataCacheDir || path.join(config.runnerWorkspacePath ?? process.cwd(), DEFAULT_CACHE_DIR));
+  }
+
+  // returns a copy of the cached entry, as the callers complete and change the returned metadata. a parse error is not cached
+  public async getOrParse<T>(kind: string, fileFullPath: string, parse: () => Promise<T>): Promise<T> {
+    if (!this._cacheFile) {
+      return parse();
+    }
+    const { oid } = await git.hashBlob({ object: await fs.promises.readFile(fileFullPath) });
+    const key = `${kind}:${oid}`;
+    const entries = await this.load();
+    if (entries.has(key)) {
+      this._hits++;
+    } else {
+      entries.set(key, await parse());
+      this._misses++;
+    }
+    this._usedKeys.add(key);
+    // the kind is part of the key, so the entry was returned by a parse of the same kind
+    return structuredClone(entries.get(key)) as T;
+  }
+
+  // after a full discovery only the entries of this run are kept, so the entries of changed or deleted files do not pile up
+  public async save(pruneUnused: boolean): Promise<void> {
+    if (!this._cacheFile || !this._entries) {
+      return;
+    }
+    logger.info(`Metadata cache: ${this._hits} hit(s), ${this._misses} miss(es)`);
+    if (!this._misses && !pruneUnused) {
+      return;
+    }
+    const entries = pruneUnused ? [...this._entries].filter(([key]) => this._usedKeys.has(key)) : [...this._entries];
+    try {
+      await fs.promises.mkdir(path.dirname(this._cacheFile), { recursive: true });
+      const tmpFile = `${this._cacheFile}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpFile, JSON.stringify(Object.fromEntries(entries)), UTF8);
+      await fs.promises.rename(tmpFile, this._cacheFile);
+      logger.debug(`Metadata cache with ${entries.length} entries saved to [${this._cacheFile}]`);
+    } catch (error: any) {
+      logger.warn(`Failed to save the metadata cache: ${error.message}`);
+    }
+  }
+
+  // a missing or unreadable cache file only means that all the files are parsed again
+  private load(): Promise<Map<string, unknown>> {
+    this._loading ??= (async () => {
+      try {
+        const content = await fs.promises.readFile(this._cacheFile!, UTF8);
+        this._entries = new Map(Object.entries(JSON.parse(content) as Record<string, unknown>));
+        logger.debug(`Metadata cache with ${this._entries.size} entries loaded from [${this._cacheFile}]`);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          logger.warn(`Ignoring the metadata cache [${this._cacheFile}]: ${error.message}`);
+        }
+        this._entries = new Map();
+      }
+      return this._entries;
+    })();
+    return this._loading;
+  }
+}
@@ -0,0 +1,153 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+
+const logger: Logger = new Logger('PathFilter');
+
+interface TestRoot {
+  alias: string; // maps the root to its own test runner, empty for the default one
+  glob: string;
+  segments: string[];
+  regex: RegExp;
+}
+
+// converts a glob to a regex: ** matches any number of folders, * and ? match within a single path segment
+const globToRegExp = (glob: string): RegExp => {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      const isFolders = glob[i + 2] === '/';
+      re += isFolders ? '(?:.*/)?' : '.*';
+      i += isFolders ? 2 : 1;
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`, 'i');
+};
+
+const normalize = (relPath: string): string => relPath.replace(/\\/g, '/').replace(/^\.?\/+|\/+$/g, '');
+
+// restricts the discovery to the configured test roots (all the repository if none) and skips the excluded paths.
+// paths are relative to the repository root, with either / or \ separators
+export default class PathFilter {
+  private readonly _roots: TestRoot[];
+  private readonly _excludes: RegExp[];
+
+  // a root is given as <glob> or <alias>=<glob>
+  constructor(testRoots: string[] = [], excludePaths: string[] = []) {
+    this._roots = testRoots.map(entry => {
+      const idx = entry.indexOf('=');
+      const alias = idx > 0 ? entry.substring(0, idx).trim() : '';
+      const glob = normalize(idx > 0 ? entry.substring(idx + 1).trim() : entry.trim());
+      return { alias, glob, segments: glob.split('/'), regex: globToRegExp(glob) };
+    });
+    this._excludes = excludePaths.map(p => globToRegExp(normalize(p)));
+    logger.debug(`PathFilter: roots=[${this._roots.map(r => r.alias ? `${r.alias}=${r.glob}` : r.glob)}], excludes=${excludePaths.length}`);
+  }
+
+  public static fromConfig(): PathFilter {
+    return new PathFilter(config.testRoots, config.excludePaths);
+  }
+
+  public getAliases(): string[] {
+    return [...new Set(this._roots.map(r => r.alias).filter(alias => alias))];
+  }
+
+  // true if the file or folder is located under a test root and is not excluded
+  public isIncluded(relPath: string): boolean {
+    const p = normalize(relPath);
+    return !this.isExcluded(p) && (!this._roots.length || this.findRoot(p) !== null);
+  }
+
+  // true if the folder must be scanned: it is included or a test root may be located under it
+  public isTraversable(relDirPath: string): boolean {
+    const p = normalize(relDirPath);
+    if (!p) {
+      return true;
+    }
+    if (this.isExcluded(p)) {
+      return false;
+    }
+    return !this._roots.length || this.findRoot(p) !== null || this._roots.some(root => this.isAncestorOfRoot(p.split('/'), root));
+  }
+
+  // the alias of the test root the path is located under, empty for the default test runner
+  public getAlias(relPath: string): string {
+    return this.findRoot(normalize(relPath))?.alias ?? '';
+  }
+
+  private isExcluded(p: string): boolean {
+    if (!this._excludes.length) {
+      return false;
+    }
+    const segments = p.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const prefix = segments.slice(0, i).join('/');
+      if (this._excludes.some(re => re.test(prefix))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private findRoot(p: string): TestRoot | null {
+    const segments = p.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const prefix = segments.slice(0, i).join('/');
+      const root = this._roots.find(r => r.regex.test(prefix));
+      if (root) {
+        return root;
+      }
+    }
+    return null;
+  }
+
+  private isAncestorOfRoot(dirSegments: string[], root: TestRoot): boolean {
+    for (let i = 0; i < dirSegments.length; i++) {
+      const globSegment = root.segments[i];
+      if (globSegment === undefined) {
+        return false;
+      }
+      if (globSegment === '**') {
+        return true;
+      }
+      if (!globToRegExp(globSegment).test(dirSegments[i])) {
+        return false;
+      }
+    }
+    return dirSegments.length < root.segments.length;
+  }
+}
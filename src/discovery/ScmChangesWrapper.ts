@@ -30,10 +30,18 @@ import * as core from '@actions/core';
 import * as git from 'isomorphic-git';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as Diff from 'diff';
 import { Logger } from '../utils/logger';
+import { isTestMainFile } from '../utils/utils';
+import PathFilter from './PathFilter';
+import { calculateContentSimilarity } from './ContentSimilarity';
 
 const logger: Logger = new Logger('ScmChangesWrapper');
+const RENAME_THRESHOLD = 0.5; // files with at least 50% similarity are considered renamed
+// new tests share most of the template ComponentInfo, so a Test.tsp / resource.mtr moved to a folder with another name must be almost the same
+const STRICT_RENAME_THRESHOLD = 0.9;
+const RESOURCE_MTR = 'resource.mtr';
+const MAX_SIMILARITY_COMPARISONS = 1000; // bounds the blobs read and compared when many files were deleted and added
+const MAIN_FILE_KEY = '<main>';
 
 export interface ScmAffectedFileWrapper {
   newPath: string;
@@ -52,8 +60,13 @@ interface DiffEntry {
 }
 
 export default class ScmChangesWrapper {
-  public static async getScmChanges(dir: string, oldCommit: string, newCommit: string): Promise<ScmAffectedFileWrapper[]> {
-    return wrapScmChanges(dir, oldCommit, newCommit);
+  // only the changes located under the test roots (or moved from there) are returned, if a path filter is given
+  public static async getScmChanges(dir: string, oldCommit: string, newCommit: string, pathFilter?: PathFilter): Promise<ScmAffectedFileWrapper[]> {
+    const affectedFiles = await wrapScmChanges(dir, oldCommit, newCommit);
+    if (!pathFilter) {
+      return affectedFiles;
+    }
+    return affectedFiles.filter(f => pathFilter.isIncluded(f.newPath) || (f.oldPath !== null && pathFilter.isIncluded(f.oldPath)));
   }
 }
 async function wrapScmChanges(dir: string, oldCommit: string, newCommit: string): Promise<ScmAffectedFileWrapper[]> {
@@ -63,9 +76,6 @@ async function wrapScmChanges(dir: string, oldCommit: string, newCommit: string)
     // Get diff between old and new commits
     const diffs = await getDiffEntries(dir, oldCommit, newCommit); // Compare to latest commit
 
-    // Rename detection settings
-    const renameThreshold = 0.5; // 50% similarity for rename detection
-
     // First pass: Identify adds, deletes, and potential renames/modifies
     for (const diff of diffs) {
       if (diff.op === 'ADD') {
@@ -95,7 +105,7 @@ async function wrapScmChanges(dir: string, oldCommit: string, newCommit: string)
       } else {
         // Potential MODIFY or RENAME
         const similarity = await calculateSimilarity(dir, oldCommit, newCommit, diff.from, diff.to);
-        if (similarity >= renameThreshold) { // only files that have less than 50% change (similarity >= 50%) will be considered as rename
+        if (similarity >= RENAME_THRESHOLD) { // only files that have less than 50% change (similarity >= 50%) will be considered as rename
           affectedFiles.push({
             newPath: diff.to,
             oldPath: diff.from,
@@ -126,7 +136,7 @@ async function getDiffEntries(dir: string, oldCommit: string, newCommit: string)
   const gitdir = path.join(dir, '.git');
   logger.debug('Starting getDiffEntries with:', { dir, gitdir, oldCommit, newCommit });
 
-  const allowedExtensions = /\.(tsp|st)$/i;
+  const allowedExtensions = /\.(tsp|st|xlsx|xls)$/i;
   const allowedFilenames = /^(ACTIONS\.XML|Resource\.MTR)$/i;
 
   const results = await git.walk({
@@ -217,15 +227,13 @@ async function getDiffEntries(dir: string, oldCommit: string, newCommit: string)
 
   // Process renames
   const finalResults: DiffEntry[] = [];
-  const usedAdds = new Set<DiffEntry>();
+  const renames = await detectRenames(dir, deletes, adds);
+  const usedAdds = new Set<DiffEntry>(renames.values());
 
   for (const del of deletes) {
-    const matchingAdd = adds.find(
-      add => add.toId === del.fromId && !usedAdds.has(add)
-    );
+    const matchingAdd = renames.get(del);
     if (matchingAdd) {
       // Found a rename
-      usedAdds.add(matchingAdd);
       finalResults.push({
         from: del.from,
         to: matchingAdd.to,
@@ -257,31 +265,190 @@ async function getDiffEntries(dir: string, oldCommit: string, newCommit: string)
   return finalResults;
 }
 
-// Calculate similarity using the diff library
-async function calculateSimilarity(dir: string, oldCommit: string, newCommit: string, oldPath: string, newPath: string ): Promise<number> {
-  try {
-    const oldContent = await git.readBlob({ fs, dir, gitdir: path.join(dir, '.git'), oid: oldCommit, filepath: oldPath });
-    const newContent = await git.readBlob({ fs, dir, gitdir: path.join(dir, '.git'), oid: newCommit, filepath: newPath });
+// pairs the deleted files with the added ones they were moved to: whole test folders first, then the files with identical content,
+// then the files of the same kind with similar content
+async function detectRenames(dir: string, deletes: DiffEntry[], adds: DiffEntry[]): Promise<Map<DiffEntry, DiffEntry>> {
+  const renames = new Map<DiffEntry, DiffEntry>();
+  const usedAdds = new Set<DiffEntry>();
+  const pair = ([del, add]: [DiffEntry, DiffEntry]) => {
+    renames.set(del, add);
+    usedAdds.add(add);
+  };
+  const readBlob = createBlobReader(dir);
+  const remainingDeletes = () => deletes.filter(del => !renames.has(del));
+  const remainingAdds = () => adds.filter(add => !usedAdds.has(add));
 
-    // Convert Uint8Array to UTF-8 string using Buffer
-    const oldStr = Buffer.from(oldContent.blob).toString('utf8');
-    const newStr = Buffer.from(newContent.blob).toString('utf8');
+  (await detectTestFolderMoves(readBlob, deletes, adds)).forEach(pair);
+
+  for (const del of remainingDeletes()) {
+    const matchingAdd = adds.find(add => add.toId === del.fromId && !usedAdds.has(add));
+    matchingAdd && pair([del, matchingAdd]);
+  }
+
+  (await detectSimilarRenames(readBlob, remainingDeletes(), remainingAdds())).forEach(pair);
+  return renames;
+}
+
+// a test folder moved as a whole: all its deleted files were added under another folder, with the same relative paths.
+// Such files are paired even if their content changed, e.g. Test.tsp is saved again after a move.
+// As a new test has the same files as any other, the move must also be clear: see isClearFolderMove
+async function detectTestFolderMoves(readBlob: BlobReader, deletes: DiffEntry[], adds: DiffEntry[]): Promise<[DiffEntry, DiffEntry][]> {
+  const deletedFolders = groupByTestFolder(deletes, del => del.from);
+  const addedFolders = groupByTestFolder(adds, add => add.to);
+  const movedFiles: [DiffEntry, DiffEntry][] = [];
+  const usedFolders = new Set<string>();
+
+  for (const [oldFolder, oldFiles] of deletedFolders) {
+    const candidates = Array.from(addedFolders).filter(([newFolder, newFiles]) => !usedFolders.has(newFolder) && haveSameFiles(oldFiles, newFiles));
+    const moved = await getMostSimilarFolder(readBlob, oldFolder, oldFiles, candidates);
+    if (!moved) {
+      continue;
+    }
+    const [newFolder, newFiles] = moved;
+    usedFolders.add(newFolder);
+    logger.debug(`Detected the move of the test folder [${oldFolder}] to [${newFolder}]`);
+    for (const [key, del] of oldFiles) {
+      movedFiles.push([del, newFiles.get(key)!]);
+    }
+  }
+
+  return movedFiles;
+}
+
+// the files of each test folder (which contains a test main file), keyed by their path relative to the folder
+function groupByTestFolder(entries: DiffEntry[], getPath: (entry: DiffEntry) => string): Map<string, Map<string, DiffEntry>> {
+  const folders = new Map<string, Map<string, DiffEntry>>();
+  for (const entry of entries) {
+    const filePath = getPath(entry);
+    if (isTestMainFile(filePath) && path.posix.dirname(filePath) !== '.') {
+      folders.set(path.posix.dirname(filePath), new Map());
+    }
+  }
+  for (const entry of entries) {
+    const filePath = getPath(entry);
+    const folder = Array.from(folders.keys()).find(f => filePath.startsWith(`${f}/`));
+    if (folder) {
+      folders.get(folder)!.set(getFolderFileKey(filePath.substring(folder.length + 1)), entry);
+    }
+  }
+  return folders;
+}
+
+// the main file of an api test may be named after the test, so it is matched by its extension
+function getFolderFileKey(relativePath: string): string {
+  const key = relativePath.toLowerCase();
+  return key.endsWith('.st') && !key.includes('/') ? `${MAIN_FILE_KEY}.st` : key;
+}
+
+function haveSameFiles(oldFiles: Map<string, DiffEntry>, newFiles: Map<string, DiffEntry>): boolean {
+  return oldFiles.size > 0 && oldFiles.size === newFiles.size && Array.from(oldFiles.keys()).every(key => newFiles.has(key));
+}
+
+// several candidate folders can have the same files, e.g. copies of a test, the one whose test main file is the most similar wins
+async function getMostSimilarFolder(readBlob: BlobReader, oldFolder: string, oldFiles: Map<string, DiffEntry>, candidates: [string, Map<string, DiffEntry>][]): Promise<[string, Map<string, DiffEntry>] | null> {
+  const mainFileKey = Array.from(oldFiles.keys()).find(key => isTestMainFile(key) || key.startsWith(MAIN_FILE_KEY))!;
+  const oldMainFile = oldFiles.get(mainFileKey)!;
+  let best: [string, Map<string, DiffEntry>] | null = null;
+  let bestSimilarity = -1;
+  for (const candidate of candidates) {
+    const similarity = await getEntriesSimilarity(readBlob, oldMainFile, candidate[1].get(mainFileKey)!);
+    if (similarity > bestSimilarity && isClearFolderMove(oldFolder, oldFiles, candidate, similarity)) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
 
-    // Use diff library to compute line-by-line differences
-    const differences = Diff.diffLines(oldStr, newStr, { ignoreWhitespace: true });
-    let unchangedLines = 0;
-    let totalLines = 0;
+// the folder kept its name, a file kept its content or the test main file is almost the same (the ids of 2 tests created apart differ)
+function isClearFolderMove(oldFolder: string, oldFiles: Map<string, DiffEntry>, [newFolder, newFiles]: [string, Map<string, DiffEntry>], mainFileSimilarity: number): boolean {
+  return path.posix.basename(oldFolder).toLowerCase() === path.posix.basename(newFolder).toLowerCase() ||
+    Array.from(oldFiles).some(([key, del]) => del.fromId === newFiles.get(key)?.toId) ||
+    mainFileSimilarity >= STRICT_RENAME_THRESHOLD;
+}
 
-    for (const part of differences) {
-      const lines = part.value.split('\n').length - 1; // Count lines (subtract 1 for trailing newline)
-      totalLines += lines;
-      if (!part.added && !part.removed) {
-        unchangedLines += lines; // Count unchanged lines
+// the most similar pairs of files with the same extension win, e.g. a Test.tsp moved together with only some of its actions.
+// Across test folders with different names only an almost unchanged Test.tsp / resource.mtr is paired, deleting a test and adding another one is not a move
+async function detectSimilarRenames(readBlob: BlobReader, deletes: DiffEntry[], adds: DiffEntry[]): Promise<[DiffEntry, DiffEntry][]> {
+  const candidates: { del: DiffEntry; add: DiffEntry; similarity: number }[] = [];
+  let comparisons = 0;
+  for (const del of deletes) {
+    const ext = path.extname(del.from).toLowerCase();
+    for (const add of adds.filter(a => path.extname(a.to).toLowerCase() === ext)) {
+      const threshold = getRenameThreshold(del.from, add.to);
+      if (threshold === null) {
+        continue;
       }
+      if (++comparisons > MAX_SIMILARITY_COMPARISONS) {
+        logger.warn(`Too many deleted and added files to compare, the renames of the remaining files are not detected`);
+        return pickMostSimilarPairs(candidates);
+      }
+      const similarity = await getEntriesSimilarity(readBlob, del, add);
+      if (similarity >= threshold) {
+        candidates.push({ del, add, similarity });
+      }
+    }
+  }
+  return pickMostSimilarPairs(candidates);
+}
+
+// null if the files are not paired by similarity, only if their content is identical
+function getRenameThreshold(oldPath: string, newPath: string): number | null {
+  if (getTestFolderName(oldPath) === getTestFolderName(newPath)) {
+    return RENAME_THRESHOLD;
+  }
+  return /\.(tsp|mtr)$/i.test(newPath) ? STRICT_RENAME_THRESHOLD : null;
+}
+
+// an action's resource.mtr is located at <test folder>/<action folder>/resource.mtr, the other files directly in the test folder
+function getTestFolderName(filePath: string): string {
+  const folder = path.posix.dirname(filePath);
+  return path.posix.basename(path.posix.basename(filePath).toLowerCase() === RESOURCE_MTR ? path.posix.dirname(folder) : folder).toLowerCase();
+}
+
+function pickMostSimilarPairs(candidates: { del: DiffEntry; add: DiffEntry; similarity: number }[]): [DiffEntry, DiffEntry][] {
+  const pairs: [DiffEntry, DiffEntry][] = [];
+  const used = new Set<DiffEntry>();
+  candidates.sort((a, b) => b.similarity - a.similarity);
+  for (const { del, add, similarity } of candidates) {
+    if (!used.has(del) && !used.has(add)) {
+      logger.debug(`Detected the rename of [${del.from}] to [${add.to}], similarity ${similarity.toFixed(2)}`);
+      used.add(del).add(add);
+      pairs.push([del, add]);
     }
+  }
+  return pairs;
+}
+
+async function getEntriesSimilarity(readBlob: BlobReader, del: DiffEntry, add: DiffEntry): Promise<number> {
+  try {
+    return calculateContentSimilarity(add.to, await readBlob(del.fromId!), await readBlob(add.toId!));
+  } catch (error) {
+    logger.warn(`Failed to compute similarity for ${del.from} -> ${add.to}: ${error}`);
+    return 0;
+  }
+}
+
+type BlobReader = (oid: string) => Promise<Uint8Array>;
+
+// a blob can be compared with several candidates, so it is read only once
+function createBlobReader(dir: string): BlobReader {
+  const blobs = new Map<string, Promise<Uint8Array>>();
+  return (oid: string) => {
+    if (!blobs.has(oid)) {
+      blobs.set(oid, git.readBlob({ fs, dir, gitdir: path.join(dir, '.git'), oid }).then(result => result.blob));
+    }
+    return blobs.get(oid)!;
+  };
+}
+
+// Calculate the similarity of the 2 versions of a file
+async function calculateSimilarity(dir: string, oldCommit: string, newCommit: string, oldPath: string, newPath: string ): Promise<number> {
+  try {
+    const oldContent = await git.readBlob({ fs, dir, gitdir: path.join(dir, '.git'), oid: oldCommit, filepath: oldPath });
+    const newContent = await git.readBlob({ fs, dir, gitdir: path.join(dir, '.git'), oid: newCommit, filepath: newPath });
 
-    // Calculate similarity as the ratio of unchanged lines to total lines
-    return totalLines > 0 ? unchangedLines / totalLines : 0;
+    return calculateContentSimilarity(newPath, oldContent.blob, newContent.blob);
   } catch (error) {
     const err = `Failed to compute similarity for ${oldPath} -> ${newPath}: ${error}`
     logger.error(err);
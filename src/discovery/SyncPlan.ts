@@ -0,0 +1,184 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as core from '@actions/core';
+import { Logger } from '../utils/logger';
+import { EntityConstants } from '../dto/octane/general/EntityConstants';
+import UnitBody, { UnitParamBody } from '../dto/octane/general/bodies/UnitBody';
+import FolderBody from '../dto/octane/general/bodies/FolderBody';
+import ScmResxFileBody from '../dto/octane/general/bodies/ScmResxFileBody';
+import CiExecutorBody from '../dto/octane/general/bodies/CiExecutorBody';
+
+const logger: Logger = new Logger('SyncPlan');
+const MAX_SUMMARY_ROWS = 500;
+
+export type SyncPlanOperation = 'create' | 'update' | 'reset' | 'delete';
+
+export type TestRunnerBody = Pick<CiExecutorBody, 'name' | 'subtype'> & { id?: string };
+
+// the bodies written by a discovery sync, a test runner is only created by a dry run which does not find it
+export type SyncPlanEntity = UnitBody | FolderBody | UnitParamBody | ScmResxFileBody | TestRunnerBody;
+
+export interface SyncPlanEntry {
+  operation: SyncPlanOperation;
+  collection: string;
+  entityType: string;
+  name?: string;
+  path?: string | null;
+  entity: SyncPlanEntity;
+}
+
+// unit bodies always carry the repository path (null for a reset unit), folder bodies never do
+const isUnitBody = (entity: SyncPlanEntity): entity is UnitBody => 'repository_path' in entity;
+
+// collects the changes a discovery sync would apply in Octane, used in dry run mode instead of writing them
+export default class SyncPlan {
+  private readonly _entries: SyncPlanEntry[] = [];
+  private _lastFakeId = 0;
+
+  public getEntries(): ReadonlyArray<SyncPlanEntry> {
+    return this._entries;
+  }
+
+  public isEmpty(): boolean {
+    return this._entries.length === 0;
+  }
+
+  // returns the entities as if they were created, with fake (negative) ids, so the sync flow can continue
+  public addCreated<T extends SyncPlanEntity, U>(collectionName: string, entities: T[]): U[] {
+    return entities.map(e => {
+      const created = { ...e, id: `${--this._lastFakeId}` };
+      this.addEntry('create', collectionName, created);
+      return created as U;
+    });
+  }
+
+  public addUpdated<T extends SyncPlanEntity, U>(collectionName: string, entities: T[]): U[] {
+    entities.forEach(e => {
+      // units removed from the repository are not deleted, only detached from the test runner
+      const isReset = isUnitBody(e) && e.repository_path === null && e.test_runner === null;
+      this.addEntry(isReset ? 'reset' : 'update', collectionName, e);
+    });
+    return entities as unknown as U[];
+  }
+
+  public addDeleted(collectionName: string, ids: string[]): void {
+    ids.forEach(id => this.addEntry('delete', collectionName, { id }));
+  }
+
+  public countByOperation(): Map<string, number> {
+    return this._entries.reduce((acc, e) => {
+      const key = `${e.operation} ${e.entityType}`;
+      acc.set(key, (acc.get(key) ?? 0) + 1);
+      return acc;
+    }, new Map<string, number>());
+  }
+
+  public print(): void {
+    logger.info(`Sync plan (dry run): ${this._entries.length} operation(s)`);
+    for (const [key, count] of this.countByOperation()) {
+      logger.info(`  ${key}: ${count}`);
+    }
+    for (const e of this._entries) {
+      logger.info(`  ${e.operation.toUpperCase()} ${e.entityType} ${e.name ?? ''}${e.path ? ` [${e.path}]` : ''}${e.entity.id ? ` (id=${e.entity.id})` : ''}`);
+    }
+  }
+
+  public async writeJson(fileFullPath: string): Promise<void> {
+    const summary = Object.fromEntries(this.countByOperation());
+    await fs.promises.writeFile(fileFullPath, JSON.stringify({ summary, operations: this._entries }, null, 2), 'utf8');
+    logger.debug(`Sync plan saved to [${fileFullPath}]`);
+  }
+
+  public async writeJobSummary(heading: string = 'MBT discovery sync plan (dry run)'): Promise<void> {
+    const summary = core.summary.addHeading(heading, 2);
+    if (this.isEmpty()) {
+      await summary.addRaw('No changes would be applied in OpenText SDP / SDM.', true).write();
+      return;
+    }
+    summary.addList(Array.from(this.countByOperation(), ([key, count]) => `${key}: ${count}`));
+    const rows = this._entries.slice(0, MAX_SUMMARY_ROWS).map(e => [e.operation, e.entityType, e.name ?? '', e.path ?? '', `${e.entity.id ?? ''}`]);
+    summary.addTable([
+      [{ data: 'Operation', header: true }, { data: 'Entity', header: true }, { data: 'Name', header: true }, { data: 'Path', header: true }, { data: 'Id', header: true }],
+      ...rows
+    ]);
+    if (this._entries.length > MAX_SUMMARY_ROWS) {
+      summary.addRaw(`Showing the first ${MAX_SUMMARY_ROWS} of ${this._entries.length} operations, see the sync plan artifact for the full list.`, true);
+    }
+    await summary.write();
+  }
+
+  // the units to be added, changed or reset, as markdown for a pull request comment
+  public toMarkdown(): string {
+    if (this.isEmpty()) {
+      return 'No changes would be applied in OpenText SDP / SDM.\n';
+    }
+    let md = Array.from(this.countByOperation(), ([key, count]) => `- ${key}: ${count}`).join('\n') + '\n';
+    const units = this._entries.filter(e => e.entityType === 'unit');
+    if (units.length) {
+      md += '\n| Operation | Unit | Path |\n| --- | --- | --- |\n';
+      md += units.slice(0, MAX_SUMMARY_ROWS).map(e => `| ${e.operation} | ${this.escapeMarkdown(e.name)} | ${this.escapeMarkdown(e.path)} |`).join('\n') + '\n';
+      if (units.length > MAX_SUMMARY_ROWS) {
+        md += `\nShowing the first ${MAX_SUMMARY_ROWS} of ${units.length} units.\n`;
+      }
+    }
+    return md;
+  }
+
+  private escapeMarkdown(val?: string | null): string {
+    return (val ?? '').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+  }
+
+  private addEntry(operation: SyncPlanOperation, collectionName: string, entity: SyncPlanEntity): void {
+    this._entries.push({
+      operation,
+      collection: collectionName,
+      entityType: this.getEntityType(collectionName, entity),
+      name: entity.name,
+      path: isUnitBody(entity) ? entity.repository_path : 'relative_path' in entity ? entity.relative_path : undefined,
+      entity
+    });
+  }
+
+  private getEntityType(collectionName: string, entity: SyncPlanEntity): string {
+    switch (collectionName) {
+      case EntityConstants.ModelFolder.COLLECTION_NAME:
+        return isUnitBody(entity) ? 'unit' : 'folder';
+      case EntityConstants.MbtUnitParameter.COLLECTION_NAME:
+        return 'unit parameter';
+      case EntityConstants.ScmResourceFile.COLLECTION_NAME:
+        return 'data table';
+      case EntityConstants.Executors.COLLECTION_NAME:
+        return 'test runner';
+      default:
+        return collectionName;
+    }
+  }
+}
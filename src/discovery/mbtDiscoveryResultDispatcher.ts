@@ -36,9 +36,10 @@ import Folder, { BaseFolder } from '../dto/octane/general/Folder';
 import UftoTestParam from '../dto/ft/UftoTestParam';
 import { UftoParamDirection } from '../dto/ft/UftoParamDirection';
 import UnitBody, { UnitParamBody } from '../dto/octane/general/bodies/UnitBody';
-import { extractScmTestPath } from '../utils/utils';
+import { extractScmTestPath, getUnitName } from '../utils/utils';
 import Unit from '../dto/octane/general/Unit';
 import FolderBody from '../dto/octane/general/bodies/FolderBody';
+import { dispatchScmResxFiles } from './scmResxFilesDispatcher';
 const LIST_NODE = "list_node";
 const INPUT = "input";
 const OUTPUT = "output";
@@ -173,13 +174,13 @@ const updateParentFolders = async (scmRepositoryId: number, updatedActions: Ufto
   return new Map<string, Folder>();
 }
 
-const createUnitParam = (param: UftoTestParam, unit: UnitBody): UnitParamBody => {
+const createUnitParam = (param: UftoTestParam, modelItem: UnitBody): UnitParamBody => {
   const direction = param.direction == UftoParamDirection.IN ? INPUT : OUTPUT;
   return {
     type: EntityConstants.MbtUnitParameter.ENTITY_NAME,
     subtype: EntityConstants.MbtUnitParameter.ENTITY_SUBTYPE,
     name: param.name,
-    model_item: { repository_path: unit.repository_path }, //TODO check if this is correct
+    model_item: modelItem,
     parameter_type: { id: `list_node.entity_parameter_type.${direction}`, type: LIST_NODE },
     value: param.defaultValue,
   };
@@ -200,8 +201,8 @@ const buildUnit = (executorId: number, scmRepositoryId: number, action: UftoTest
 
   let unit: UnitBody = {
     ... (parentId ? { parent: { id: parentId, type: "model_item" } } : {}),
-    ... (action.description ? { description: action.description } : {}),
-    name: !action.logicalName || action.logicalName.startsWith("Action") ? `${action.testName}:${action.name}` : action.logicalName,
+    ... (action.description !== undefined ? { description: action.description } : {}),
+    name: getUnitName(action),
     test_runner: { id: executorId, type: "executor" },
     repository_path: action.repositoryPath
   };
@@ -221,7 +222,7 @@ const buildUnit = (executorId: number, scmRepositoryId: number, action: UftoTest
   //we need to add the unit to each param for later update
   if (unitParams) {
     action.parameters?.forEach(p => {
-      unitParams.push(createUnitParam(p, unit));
+      unitParams.push(createUnitParam(p, { repository_path: unit.repository_path })); // replaced by the created unit in OctaneClient.createUnits
     });
   }
 
@@ -293,9 +294,37 @@ const dispatchUpdatedActions = async (executorId: number, scmRepositoryId: numbe
   return true;
 }
 
+// the parameters of new units are created together with their units, here only the parameters of existing units are handled
+const dispatchUnitsParams = async (actions: UftoTestAction[]): Promise<boolean> => {
+  const paramsToAdd: UnitParamBody[] = [];
+  const paramsToUpdate: UnitParamBody[] = [];
+  const paramIdsToDelete: string[] = [];
+  actions.filter(action => action.id && action.octaneStatus !== OctaneStatus.DELETED).forEach(action => {
+    const modelItem = { id: action.id, type: EntityConstants.MbtUnit.ENTITY_NAME };
+    action.parameters?.forEach(p => {
+      if (p.octaneStatus === OctaneStatus.NEW) {
+        paramsToAdd.push(createUnitParam(p, modelItem));
+      } else if (p.octaneStatus === OctaneStatus.MODIFIED && p.id) {
+        paramsToUpdate.push({ ...createUnitParam(p, modelItem), id: p.id, value: p.defaultValue ?? '' });
+      } else if (p.octaneStatus === OctaneStatus.DELETED && p.id) {
+        paramIdsToDelete.push(p.id);
+      }
+    });
+  });
+
+  if (paramsToAdd.length || paramsToUpdate.length || paramIdsToDelete.length) {
+    logger.info(`Unit parameters to add: ${paramsToAdd.length}, to update: ${paramsToUpdate.length}, to delete: ${paramIdsToDelete.length}`);
+    await OctaneClient.createUnitParams(paramsToAdd);
+    await OctaneClient.updateUnitParams(paramsToUpdate);
+    await OctaneClient.deleteUnitParams(paramIdsToDelete);
+  }
+
+  return true;
+}
+
 const dispatchDiscoveryResults = async (executorId: number, scmRepositoryId: number, result: DiscoveryResult) => {
   logger.info('Dispatching discovery results ...');
-  const allActions = result.getAllTests().flatMap(aTest => aTest.actions);
+  const allActions = [...result.getAllTests().flatMap(aTest => aTest.actions), ...result.getOrphanActions()];
   const actionsByStatusMap: Map<OctaneStatus, UftoTestAction[]> = allActions.reduce((acc, action) => {
     const status = action.octaneStatus;
     if (!acc.has(status)) {
@@ -324,7 +353,13 @@ const dispatchDiscoveryResults = async (executorId: number, scmRepositoryId: num
     updatedActionsSynced = await dispatchUpdatedActions(executorId, scmRepositoryId, actionsByStatusMap.get(OctaneStatus.MODIFIED)!, autoDiscoveredFolder);
   }
 
-  return newActionsSynced && delActionsSynced && updatedActionsSynced;
+  // handle the parameters of existing units - create, update or delete them according to the actions' parameters
+  const paramsSynced = await dispatchUnitsParams(allActions);
+
+  // handle data tables - create, move or delete the scm resource files in octane
+  const resxFilesSynced = await dispatchScmResxFiles(scmRepositoryId, result);
+
+  return newActionsSynced && delActionsSynced && updatedActionsSynced && paramsSynced && resxFilesSynced;
 }
 
 export { dispatchDiscoveryResults }
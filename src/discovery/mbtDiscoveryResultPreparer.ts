@@ -31,14 +31,17 @@ import OctaneClient from '../client/octaneClient';
 import { Logger } from '../utils/logger';
 import { EntityConstants } from '../dto/octane/general/EntityConstants';
 import AutomatedTest from '../dto/ft/AutomatedTest';
-import { escapeQueryVal, extractScmPathFromActionPath, extractScmTestPath, getTestPathPrefix, extractActionLogicalNameFromActionPath, extractActionNameFromActionPath } from '../utils/utils';
+import { escapeQueryVal, extractScmPathFromActionPath, extractScmTestPath, getTestPathPrefix, extractActionLogicalNameFromActionPath, extractActionNameFromActionPath, getUnitName } from '../utils/utils';
 import UftoTestAction from '../dto/ft/UftoTestAction';
 import { OctaneStatus } from '../dto/ft/OctaneStatus';
 import DiscoveryResult from '../discovery/DiscoveryResult';
-import Unit from '../dto/octane/general/Unit';
+import Unit, { UnitParam } from '../dto/octane/general/Unit';
+import UftoTestParam from '../dto/ft/UftoTestParam';
+import { UftoParamDirection } from '../dto/ft/UftoParamDirection';
 
 const logger: Logger = new Logger('mbtDiscoveryResultPreparer');
 const { ID, REPOSITORY_PATH, SCM_REPOSITORY } = EntityConstants.MbtUnit;
+const OUTPUT_PARAM_TYPE = 'list_node.entity_parameter_type.output';
 
 const mbtPrepDiscoveryRes4Sync = async (executorId: number, scmRepositoryId: number, discoveryRes: DiscoveryResult) => {
   if (discoveryRes.isFullSync()) {
@@ -49,15 +52,19 @@ const mbtPrepDiscoveryRes4Sync = async (executorId: number, scmRepositoryId: num
       acc.set(key, unit);
       return acc;
     }, new Map<string, Unit>());
-    removeExistingUnits(discoveryRes, existingUnitsByRepo);
+    if (discoveryRes.isReconcile()) {
+      reconcileUnits(executorId, discoveryRes, existingUnitsByRepo);
+    } else {
+      removeExistingUnits(discoveryRes, existingUnitsByRepo);
+    }
   } else {
     logger.info(`Preparing incremental sync dispatch with MBT for executor ${executorId}`);
     await handleDeletedTests(discoveryRes.getDeletedTests());
     await handleAddedTests(discoveryRes);
     await handleUpdatedTests(discoveryRes.getUpdatedTests());
     await handleMovedTests(discoveryRes.getUpdatedTests());
-    return;
   }
+  await handleUnitsParams(discoveryRes.getAllTests().flatMap(test => test.actions));
 }
 
 const fetchUnitsByScmRepository = async (scmRepositoryId: number): Promise<Unit[]> => {
@@ -209,6 +216,36 @@ const removeExistingUnits = (discoveryRes: DiscoveryResult, octaneUnitsMap: Map<
   });
 };
 
+// unlike removeExistingUnits, the units of this test runner are compared with the actions, so changes made in Octane are reverted,
+// the missing units are created (the actions remain new) and the units which no longer have an action are reset
+const reconcileUnits = (executorId: number, discoveryRes: DiscoveryResult, octaneUnitsMap: Map<string, Unit>) => {
+  const discoveredPaths = new Set<string>();
+  discoveryRes.getAllTests().forEach(test => {
+    test.actions = test.actions.filter(action => {
+      if (!action.repositoryPath) return true;
+      discoveredPaths.add(action.repositoryPath);
+      const u = octaneUnitsMap.get(action.repositoryPath);
+      if (!u) return true; // missing in Octane, will be created
+      if (u.test_runner && `${u.test_runner.id}` !== `${executorId}`) return false; // belongs to another test runner
+      action.id = `${u.id}`;
+      const isSame = !!u.test_runner && u.name === getUnitName(action) && isSameDescription(action, u);
+      action.octaneStatus = isSame ? OctaneStatus.NONE : OctaneStatus.MODIFIED;
+      return true;
+    });
+  });
+
+  // the units of a test which could not be parsed are not orphans, they are kept until the test is fixed
+  const toTestPath = (p: string) => p.replace(/\//g, '\\').toLowerCase();
+  const skippedTestPaths = new Set(discoveryRes.getProblems().filter(p => p.isTestSkipped).map(p => toTestPath(p.path)));
+  const isOfSkippedTest = (u: Unit) => skippedTestPaths.has(toTestPath(extractScmTestPath(u.repository_path) ?? ''));
+
+  const orphanActions = Array.from(octaneUnitsMap.values())
+    .filter(u => u.test_runner && `${u.test_runner.id}` === `${executorId}` && !discoveredPaths.has(u.repository_path) && !isOfSkippedTest(u))
+    .map(u => convertUnitToAction(u, OctaneStatus.DELETED));
+  logger.info(`Reconcile: ${orphanActions.length} orphaned unit(s) will be reset.`);
+  discoveryRes.addOrphanActions(orphanActions);
+};
+
 // handle case 1 for added actions
 const handleUpdatedTestAddedActionCase = (scmPathToActionMap: Map<string, UftoTestAction>, scmPathToUnitMap: Map<string, Unit>): void => {
   const addedActions = Array.from(scmPathToActionMap.keys()).filter(key => !scmPathToUnitMap.has(key));
@@ -281,19 +318,15 @@ const handleUpdatedTestUpdatedActionCase = (
       const unit = scmPathToUnitMap.get(scmPath);
 
       if (action && unit) {
-        // if the logical name has changed, mark the action as modified
+        // if the logical name or the description has changed, mark the action as modified
         const logicalName = extractActionLogicalNameFromActionPath(unit.repository_path).toLowerCase();
-        if (action.logicalName!.toLowerCase() === logicalName) {
+        action.id = `${unit.id}`; // required also for a not modified action, in order to sync its parameters
+        if (action.logicalName!.toLowerCase() === logicalName && isSameDescription(action, unit)) {
           action.octaneStatus = OctaneStatus.NONE;
         } else {
-          action.id = `${unit.id}`;
           action.octaneStatus = OctaneStatus.MODIFIED;
         }
 
-        action.parameters?.forEach(p => {
-          p.octaneStatus = OctaneStatus.NONE; // currently do not support parameter changes
-        });
-
         scmPathToActionMap.delete(scmPath);
         scmPathToUnitMap.delete(scmPath);
       }
@@ -301,6 +334,12 @@ const handleUpdatedTestUpdatedActionCase = (
   }
 }
 
+// octane stores the description as html, so only the text is compared
+const isSameDescription = (action: UftoTestAction, unit: Unit): boolean => {
+  const normalize = (descr?: string | null) => (descr ?? '').replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+  return normalize(action.description) === normalize(unit.description);
+}
+
 const handleMovedTests = async (updatedTests: ReadonlyArray<AutomatedTest>) => {
   if (!updatedTests?.length) return;
   const movedTests = updatedTests.filter(test => test.isMoved);
@@ -370,7 +409,6 @@ const handleMovedTests = async (updatedTests: ReadonlyArray<AutomatedTest>) => {
           action.octaneStatus = OctaneStatus.MODIFIED;
           action.moved = true;
           action.oldTestName = aTest.oldName;
-          action.parameters = []; // currently the java code sets octaneStatus to NONE for all params and then deletes all params
         }
       });
 
@@ -384,6 +422,74 @@ const handleMovedTests = async (updatedTests: ReadonlyArray<AutomatedTest>) => {
   }
 }
 
+// compares the parameters of the actions bound to existing units with the parameters of these units in octane
+const handleUnitsParams = async (actions: UftoTestAction[]) => {
+  const actionsWithUnit = actions.filter(action => action.id && action.octaneStatus !== OctaneStatus.DELETED);
+  if (!actionsWithUnit.length) {
+    return;
+  }
+  logger.info(`Processing parameters of existing units. Count: ${actionsWithUnit.length}.`);
+
+  const unitParams = await OctaneClient.fetchUnitParams(actionsWithUnit.map(action => action.id!));
+  const unitIdToParamsMap = unitParams.reduce((acc, p) => {
+    const unitId = `${p.model_item?.id}`;
+    if (!acc.has(unitId)) {
+      acc.set(unitId, []);
+    }
+    acc.get(unitId)!.push(p);
+    return acc;
+  }, new Map<string, UnitParam[]>());
+
+  actionsWithUnit.forEach(action => {
+    action.parameters = diffUnitParams(action.parameters ?? [], unitIdToParamsMap.get(action.id!) ?? []);
+  });
+}
+
+// the parameters are matched by name. the ones left on both sides are matched by order and direction and considered renamed,
+// the rest of the unit parameters no longer exist in the action and are marked as deleted
+const diffUnitParams = (params: UftoTestParam[], unitParams: UnitParam[]): UftoTestParam[] => {
+  const remainingUnitParams = [...unitParams];
+  const unmatchedParams: UftoTestParam[] = [];
+  params.forEach(p => {
+    const idx = remainingUnitParams.findIndex(up => up.name === p.name);
+    if (idx < 0) {
+      unmatchedParams.push(p);
+    } else {
+      matchUnitParam(p, remainingUnitParams.splice(idx, 1)[0]);
+    }
+  });
+
+  unmatchedParams.forEach(p => {
+    const idx = remainingUnitParams.findIndex(up => getUnitParamDirection(up) === p.direction);
+    if (idx < 0) {
+      p.octaneStatus = OctaneStatus.NEW;
+    } else {
+      matchUnitParam(p, remainingUnitParams.splice(idx, 1)[0]);
+    }
+  });
+
+  const deletedParams: UftoTestParam[] = remainingUnitParams.map(up => ({
+    id: `${up.id}`,
+    name: up.name,
+    direction: getUnitParamDirection(up),
+    octaneStatus: OctaneStatus.DELETED
+  }));
+
+  return [...params, ...deletedParams];
+}
+
+const matchUnitParam = (param: UftoTestParam, unitParam: UnitParam): void => {
+  param.id = `${unitParam.id}`;
+  const isSame = param.name === unitParam.name
+    && param.direction === getUnitParamDirection(unitParam)
+    && (param.defaultValue ?? '') === (unitParam.value ?? '');
+  param.octaneStatus = isSame ? OctaneStatus.NONE : OctaneStatus.MODIFIED;
+}
+
+const getUnitParamDirection = (unitParam: UnitParam): UftoParamDirection => {
+  return unitParam.parameter_type?.id === OUTPUT_PARAM_TYPE ? UftoParamDirection.OUT : UftoParamDirection.IN;
+}
+
 export {
   mbtPrepDiscoveryRes4Sync
 };
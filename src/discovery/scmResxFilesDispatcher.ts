@@ -0,0 +1,135 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as path from 'path';
+import OctaneClient from '../client/octaneClient';
+import { Logger } from '../utils/logger';
+import { EntityConstants } from '../dto/octane/general/EntityConstants';
+import ScmResourceFile from '../dto/ft/ScmResourceFile';
+import { OctaneStatus } from '../dto/ft/OctaneStatus';
+import DiscoveryResult from './DiscoveryResult';
+import ScmResxFile from '../dto/octane/general/ScmResxFile';
+import ScmResxFileBody from '../dto/octane/general/bodies/ScmResxFileBody';
+
+const logger: Logger = new Logger('scmResxFilesDispatcher');
+
+// Octane keeps the relative path of a resource file in the unix style (folder/file.xlsx)
+const toScmPath = (relativePath: string): string => {
+  return relativePath.replace(/\\/g, '/');
+}
+
+const buildScmResxFile = (scmRepositoryId: number, resxFile: ScmResourceFile): ScmResxFileBody => {
+  return {
+    type: EntityConstants.ScmResourceFile.ENTITY_NAME,
+    name: path.basename(resxFile.relativePath),
+    relative_path: toScmPath(resxFile.relativePath),
+    scm_repository: { id: scmRepositoryId, type: EntityConstants.ScmRepository.ENTITY_NAME }
+  };
+}
+
+const mapByRelativePath = (entities: ScmResxFile[]): Map<string, ScmResxFile> => {
+  return entities.reduce((acc, e) => {
+    acc.set(e.relative_path, e);
+    return acc;
+  }, new Map<string, ScmResxFile>());
+}
+
+// in case of full sync, the discovered data tables are the source of truth within the scope of the result:
+// create the missing ones and delete the ones which do not exist anymore in the repository
+const dispatchFullSync = async (scmRepositoryId: number, result: DiscoveryResult): Promise<void> => {
+  const resxFiles = result.getScmResxFiles();
+  const existingMap = mapByRelativePath(await OctaneClient.fetchScmResxFiles(scmRepositoryId));
+  const discoveredPaths = new Set<string>(resxFiles.map(f => toScmPath(f.relativePath)));
+
+  const resxFilesToAdd = resxFiles
+    .filter(f => !existingMap.has(toScmPath(f.relativePath)))
+    .map(f => buildScmResxFile(scmRepositoryId, f));
+  const idsToDelete = Array.from(existingMap.values())
+    .filter(e => !discoveredPaths.has(e.relative_path) && result.isInScope(e.relative_path))
+    .map(e => `${e.id}`);
+
+  logger.info(`Full sync of scm resource files: ${resxFilesToAdd.length} to add, ${idsToDelete.length} to delete.`);
+  await OctaneClient.createScmResxFiles(resxFilesToAdd);
+  await OctaneClient.deleteScmResxFiles(idsToDelete);
+}
+
+const dispatchNewResxFiles = async (scmRepositoryId: number, newResxFiles: ScmResourceFile[]): Promise<void> => {
+  if (!newResxFiles.length) return;
+  const paths = newResxFiles.map(f => toScmPath(f.relativePath));
+  const existingMap = mapByRelativePath(await OctaneClient.fetchScmResxFiles(scmRepositoryId, paths));
+  const resxFilesToAdd = newResxFiles
+    .filter(f => !existingMap.has(toScmPath(f.relativePath)))
+    .map(f => buildScmResxFile(scmRepositoryId, f));
+  await OctaneClient.createScmResxFiles(resxFilesToAdd);
+}
+
+const dispatchDeletedResxFiles = async (scmRepositoryId: number, deletedResxFiles: ScmResourceFile[]): Promise<void> => {
+  if (!deletedResxFiles.length) return;
+  const paths = deletedResxFiles.map(f => toScmPath(f.relativePath));
+  const existing = await OctaneClient.fetchScmResxFiles(scmRepositoryId, paths);
+  if (existing.length < deletedResxFiles.length) {
+    logger.warn(`Only ${existing.length} of ${deletedResxFiles.length} deleted scm resource files were found in Octane.`);
+  }
+  await OctaneClient.deleteScmResxFiles(existing.map(e => `${e.id}`));
+}
+
+// a moved data table keeps its Octane entity, only the name and the relative path are updated
+const dispatchMovedResxFiles = async (scmRepositoryId: number, movedResxFiles: ScmResourceFile[]): Promise<void> => {
+  if (!movedResxFiles.length) return;
+  const oldPaths = movedResxFiles.map(f => toScmPath(f.oldRelativePath!));
+  const existingMap = mapByRelativePath(await OctaneClient.fetchScmResxFiles(scmRepositoryId, oldPaths));
+  const resxFilesToUpdate: ScmResxFileBody[] = [];
+  const resxFilesToAdd: ScmResxFileBody[] = [];
+  for (const resxFile of movedResxFiles) {
+    const entity = existingMap.get(toScmPath(resxFile.oldRelativePath!));
+    const body = buildScmResxFile(scmRepositoryId, resxFile);
+    if (entity) {
+      resxFilesToUpdate.push({ id: `${entity.id}`, name: body.name, relative_path: body.relative_path });
+    } else {
+      logger.warn(`Moved scm resource file ${resxFile.oldRelativePath} not found in Octane, it will be created.`);
+      resxFilesToAdd.push(body);
+    }
+  }
+  await OctaneClient.updateScmResxFiles(resxFilesToUpdate);
+  await OctaneClient.createScmResxFiles(resxFilesToAdd);
+}
+
+const dispatchScmResxFiles = async (scmRepositoryId: number, result: DiscoveryResult): Promise<boolean> => {
+  logger.info('Dispatching scm resource files ...');
+  if (result.isFullSync()) {
+    await dispatchFullSync(scmRepositoryId, result);
+  } else {
+    const resxFiles = result.getScmResxFiles();
+    await dispatchNewResxFiles(scmRepositoryId, resxFiles.filter(f => f.octaneStatus === OctaneStatus.NEW));
+    await dispatchDeletedResxFiles(scmRepositoryId, resxFiles.filter(f => f.octaneStatus === OctaneStatus.DELETED));
+    await dispatchMovedResxFiles(scmRepositoryId, resxFiles.filter(f => f.octaneStatus === OctaneStatus.MODIFIED && f.isMoved && f.oldRelativePath));
+  }
+  return true;
+}
+
+export { dispatchScmResxFiles };
@@ -29,6 +29,7 @@
 import SupportsOctaneStatus from "./SupportsOctaneStatus";
 import { UftoParamDirection } from "./UftoParamDirection";
 export default interface UftoTestParam extends SupportsOctaneStatus{
+  id?: string;
   name: string;
   direction: UftoParamDirection;
   defaultValue?: string;
@@ -37,7 +37,9 @@ const enum ActionsEventType {
   PULL_REQUEST_EDITED = 'edited',
   PULL_REQUEST_REOPENED = 'reopened',
   UNKNOWN_EVENT = 'unknown',
-  WORKFLOW_DISPATCH = 'workflow_dispatch'
+  WORKFLOW_DISPATCH = 'workflow_dispatch',
+  PULL_REQUEST = 'pull_request',
+  SCHEDULE = 'schedule'
 }
 
 export default ActionsEventType;
@@ -33,4 +33,6 @@ export default interface WorkflowRun {
   run_started_at?: string;
   run_completed_at?: string | null;
   workflow_id: number;
+  status?: string | null;
+  path?: string;
 }
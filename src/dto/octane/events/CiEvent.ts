@@ -31,6 +31,7 @@
 import CiEventCause from './CiEventCause';
 import CiParam from './CiParam';
 import { CiEventType, PhaseType, Result } from './CiTypes';
+import ScmData from '../scm/ScmData';
 
 export default interface CiEvent {
   projectDisplayName: string;
@@ -43,7 +44,7 @@ export default interface CiEvent {
   startTime: number;
   estimatedDuration?: number;
   duration?: number;
-  //scmData?: Object;
+  scmData?: ScmData;
   phaseType?: PhaseType;
   causes?: CiEventCause[];
   parameters?: CiParam[];
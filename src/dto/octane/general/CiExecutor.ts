@@ -37,4 +37,7 @@ export default interface CiExecutor {
   ci_server: Reference;
   scm_repository: Reference;
   ci_job: Reference;
+  message?: string | null;
+  last_successful_sync?: string | null;
+  sync_status?: { id: string; type: string } | null;
 }
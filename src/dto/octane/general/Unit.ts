@@ -48,5 +48,5 @@ export interface UnitParam {
   value?: string;
   subtype?: string;
   model_item: any; //UnitBody
-  parameter_type: object;
+  parameter_type: { id: string; type: string };
 }
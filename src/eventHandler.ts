@@ -27,15 +27,16 @@
  * limitations under the License.
  */
 
-import { notice } from '@actions/core';
+import { error as annotateError, notice, setFailed, summary } from '@actions/core';
 import OctaneClient from './client/octaneClient';
-import { config } from './config/config';
+import { applyRepoConfig, config } from './config/config';
+import { getCurrentBranch, loadRepoConfig } from './config/repoConfig';
 import ActionsEvent from './dto/github/ActionsEvent';
 import ActionsEventType from './dto/github/ActionsEventType';
 import { Logger } from './utils/logger';
-import { saveSyncedCommit, getSyncedCommit, getSyncedTimestamp, getEventType, isVersionGreater } from './utils/utils';
+import { getEventType, isVersionGreater, sleep } from './utils/utils';
 import { context } from '@actions/github';
-import { getCreateOrUpdateTestRunner, sendExecutorFinishEvent, sendExecutorStartEvent } from './service/executorService';
+import { getCreateOrUpdateTestRunner, sendExecutorFinishEvent, sendExecutorScmEvent, sendExecutorStartEvent } from './service/executorService';
 import Discovery from './discovery/Discovery';
 import { UftoParamDirection } from './dto/ft/UftoParamDirection';
 import { OctaneStatus } from './dto/ft/OctaneStatus';
@@ -53,20 +54,37 @@ import MbtDataPrepConverter from './mbt/MbtDataPrepConverter';
 import { MbtTestInfo } from './mbt/MbtTestData';
 import MbtPreTestExecuter from './mbt/MbtPreTestExecuter';
 import { ExitCode } from './ft/ExitCode';
+import CiExecutor from './dto/octane/general/CiExecutor';
 import FtTestExecuter from './ft/FtTestExecuter';
 import { CiCausesType, Result } from './dto/octane/events/CiTypes';
 import { publishResultsToOctane } from './service/testResultsService';
 import * as fs from 'fs';
 import FTL from './ft/FTL';
 import { PLUGIN_VERSION, SEP, THRESHOLD_OCTANE_VERSION } from './utils/constants';
+import { getRemainingSyncInterval, getSyncStateStore } from './service/syncStateService';
+import { SyncIntervalMode } from './sync/SyncIntervalMode';
+import SyncPlan, { TestRunnerBody } from './discovery/SyncPlan';
+import SyncStateStore from './sync/SyncStateStore';
+import SyncLock from './sync/SyncLock';
+import PathFilter from './discovery/PathFilter';
+import { reportExecutionResult } from './service/jobResultService';
+import { getScmData } from './service/scmDataService';
+import { verifyOctaneAccess } from './service/connectivityService';
+import DiscoveryProblem from './dto/ft/DiscoveryProblem';
+import { runSelfCheck } from './service/selfCheckService';
+import { ActionMode } from './config/ActionMode';
 
 const logger: Logger = new Logger('eventHandler');
 const requiredKeys: WorkflowInputsKeys[] = ['executionId', 'suiteId', 'suiteRunId', 'testsToRun'];
+const TEST_RUNNER_SUBTYPE = 'uft_test_runner';
+const SYNC_PLAN_FILE = 'sync_plan.json';
 
 export const handleCurrentEvent = async (): Promise<void> => {
   logger.info('BEGIN handleEvent ...');
   const startTime = new Date().getTime();
 
+  applyRepoConfig(await loadRepoConfig(config.configFile, getCurrentBranch()));
+
   if (config.logLevel === 2) {
     for (const [key, value] of Object.entries(process.env)) {
       if (key.startsWith('GITHUB_') || key.startsWith('RUNNER_')) {
@@ -75,6 +93,12 @@ export const handleCurrentEvent = async (): Promise<void> => {
     }
   }
 
+  if (config.mode === ActionMode.CHECK) {
+    await runSelfCheck();
+    logger.info('END handleEvent ...');
+    return;
+  }
+
   const event: ActionsEvent = context.payload;
   const eventName = context.eventName ?? event.name;
 
@@ -90,14 +114,18 @@ export const handleCurrentEvent = async (): Promise<void> => {
   let ymlFullPath: string | undefined;
   if (eventType === ActionsEventType.PUSH) {
     ymlFullPath = await GitHubClient.getWorkflowPath(event.after!);
+  } else if (eventType === ActionsEventType.PULL_REQUEST || eventType === ActionsEventType.SCHEDULE) {
+    ymlFullPath = (await GitHubClient.getWorkflowRun(context.runId)).path;
   } else {
     ymlFullPath = (typeof event.workflow === 'string') ? event.workflow : event.workflow?.path;
   }
 
   //const workflowName = event.workflow?.name;
-  const ref: string | undefined = event.ref;
+  const ref: string | undefined = eventType === ActionsEventType.SCHEDULE ? context.ref : event.ref; // the schedule payload has no ref
   let branch: string | undefined;
-  if (ref && ref.startsWith('refs/heads/')) {
+  if (eventType === ActionsEventType.PULL_REQUEST) {
+    branch = event.pull_request?.base?.ref; // the sync is previewed against the executor of the target branch
+  } else if (ref && ref.startsWith('refs/heads/')) {
     branch = ref.slice(11);  // 'refs/heads/' has 11 characters
   } else {
     branch = event.repository?.default_branch ?? event.repository?.master_branch;
@@ -112,6 +140,7 @@ export const handleCurrentEvent = async (): Promise<void> => {
   const ymlFileName = path.basename(ymlFullPath);
 
   logger.info(`Current repository URL: ${config.repoUrl}`);
+  await verifyOctaneAccess();
 
   const workDir = process.cwd(); //.env.GITHUB_WORKSPACE || '.';
   logger.info(`Working directory: ${workDir}`);
@@ -129,61 +158,106 @@ export const handleCurrentEvent = async (): Promise<void> => {
           if (!testsToRun || testsToRun === defaults["testsToRun"]) {
             throw new Error(`Invalid or missing tests to run specified in the workflow`);
           }
-          const exitCode = await handleExecutorEvent(defaultParams, wfis);
-          //TODO use exitCode ?
+          const { exitCode, resFullPath } = await handleExecutorEvent(defaultParams, wfis);
+          await reportExecutionResult(exitCode, resFullPath);
           break;
         } else {
           logger.debug(`Continue with discovery / sync ...`);
         }
       }
+    case ActionsEventType.SCHEDULE:
     case ActionsEventType.PUSH:
-      const oldCommit = await getSyncedCommit();
-      if (oldCommit) {
-        const minSyncInterval = config.minSyncInterval;
-        logger.info(`minSyncInterval = ${minSyncInterval} minutes.`);
-        const isIntervalElapsed = await isMinSyncIntervalElapsed(minSyncInterval);
-        if (!isIntervalElapsed) {
-          const msg = `The minimum time interval of ${minSyncInterval} minutes has not yet elapsed since the last sync.`;
-          logger.warn(msg);
-          notice(msg, { title: 'Run Canceled' });
-          await GitHubClient.cancelWorkflowRun();
+      const { executorName } = await getCiPredefinedVals(branch, ymlFileName);
+      const syncStateStore = getSyncStateStore(executorName);
+      let oldCommit = await syncStateStore.getSyncedCommit();
+      // a full discovery reconciled with all the units of the test runner, fixes drifts of the incremental sync
+      const isReconcile = eventType === ActionsEventType.SCHEDULE || config.forceFullSync;
+      logger.info(`isReconcile = ${isReconcile}`);
+      if (oldCommit && !isReconcile) {
+        const canSync = await awaitMinSyncInterval(syncStateStore, eventType, ymlFileName, branch);
+        if (!canSync) {
           return;
         }
       }
-      const discoveryRes = await discovery.startScanning(oldCommit);
-      const tests = discoveryRes.getAllTests();
-
-      if (logger.isDebugEnabled()) {
-        console.log(`Tests: ${tests.length}`);
-        for (const t of tests) {
-          console.log(`${t.name}, type = ${t.uftOneTestType}`);
-          console.log(`  packageName: ${t.packageName}`);
-          console.log(`  executable: ${t.executable}`);
-          console.log(`  isMoved: ${t.isMoved ?? false}`);
-          console.log(`  octaneStatus: ${OctaneStatus.getName(t.octaneStatus)}`);
-          t.changeSetSrc && console.log(`  changeSetSrc: ${t.changeSetSrc}`);
-          t.changeSetDst && console.log(`  changeSetDst: ${t.changeSetDst}`);
-          if (t.actions && t.actions.length > 0) {
-            console.log(`  Actions:`);
-            for (const a of t.actions) {
-              console.log(`    ${a.name}`);
-              if (a.parameters && a.parameters.length > 0) {
-                console.log(`      Parameters:`);
-                for (const p of a.parameters) {
-                  console.log(`        ${p.name} - ${UftoParamDirection.getName(p.direction)}`);
+      const syncLock = config.dryRun ? null : new SyncLock(executorName);
+      if (syncLock) {
+        if (!(await syncLock.acquire(config.lockTimeout))) {
+          const msg = `Another sync of ${executorName} did not finish within ${config.lockTimeout} minutes, skipping this sync.`;
+          logger.warn(msg);
+          notice(msg, { title: 'Sync Skipped' });
+          break;
+        }
+        // another run may have synced while this one was waiting for the lock, a new store is used as the state may be cached
+        oldCommit = await getSyncStateStore(executorName).getSyncedCommit();
+      }
+      try {
+        const discoveryRes = await discovery.startScanning(oldCommit, isReconcile);
+        const tests = discoveryRes.getAllTests();
+
+        if (logger.isDebugEnabled()) {
+          console.log(`Tests: ${tests.length}`);
+          for (const t of tests) {
+            console.log(`${t.name}, type = ${t.uftOneTestType}`);
+            console.log(`  packageName: ${t.packageName}`);
+            console.log(`  executable: ${t.executable}`);
+            console.log(`  isMoved: ${t.isMoved ?? false}`);
+            console.log(`  octaneStatus: ${OctaneStatus.getName(t.octaneStatus)}`);
+            t.changeSetSrc && console.log(`  changeSetSrc: ${t.changeSetSrc}`);
+            t.changeSetDst && console.log(`  changeSetDst: ${t.changeSetDst}`);
+            if (t.actions && t.actions.length > 0) {
+              console.log(`  Actions:`);
+              for (const a of t.actions) {
+                console.log(`    ${a.name}`);
+                if (a.parameters && a.parameters.length > 0) {
+                  console.log(`      Parameters:`);
+                  for (const p of a.parameters) {
+                    console.log(`        ${p.name} - ${UftoParamDirection.getName(p.direction)}`);
+                  }
                 }
               }
             }
           }
         }
-      }
 
-      await doTestSync(discoveryRes, ymlFileName, branch!);
-      const newCommit = discoveryRes.getNewCommit();
-      if (newCommit !== oldCommit) {
-        await saveSyncedCommit(newCommit);
+        const problems = discoveryRes.getProblems();
+        if (problems.length) {
+          await reportDiscoveryProblems(problems);
+        }
+
+        if (config.dryRun) {
+          await forEachWorkspace(async workspaceId => {
+            const syncPlan = await doTestSyncDryRun(discoveryRes.clone(), ymlFileName, branch!);
+            await publishSyncPlan(syncPlan, workspaceId);
+          });
+          logger.info('Dry run: the synced commit is not saved.');
+          break;
+        }
+
+        if (problems.length > config.maxDiscoveryErrors) {
+          setFailed(`${problems.length} discovery problem(s) exceed maxDiscoveryErrors (${config.maxDiscoveryErrors}), nothing was synced.`);
+          break;
+        }
+
+        const newCommit = discoveryRes.getNewCommit();
+        await forEachWorkspace(async () => {
+          await doTestSync(discoveryRes.clone(), ymlFileName, branch!);
+        });
+        // the analytics api is shared space wide, so the event is sent once, on the CI server of the main workspace. The commits of a push
+        // may also be synced by the follow-up run dispatched when the minimum sync interval had not elapsed
+        const isPushSync = eventType === ActionsEventType.PUSH || eventType === ActionsEventType.WORKFLOW_DISPATCH;
+        if (isPushSync && newCommit !== oldCommit) {
+          await sendScmEvent(oldCommit, newCommit, ymlFileName, branch!, startTime);
+        }
+        if (newCommit !== oldCommit) {
+          await syncStateStore.saveSyncedCommit(newCommit);
+        }
+      } finally {
+        await syncLock?.release();
       }
       break;
+    case ActionsEventType.PULL_REQUEST:
+      await handlePullRequestEvent(discovery, event, ymlFileName, branch);
+      break;
     default:
       logger.info(`default -> eventType = ${eventType}`);
       break;
@@ -192,7 +266,7 @@ export const handleCurrentEvent = async (): Promise<void> => {
   logger.info('END handleEvent ...');
   // END of handleCurrentEvent function
 
-  async function handleExecutorEvent(defaultParams: CiParam[], wfis: WorkflowInputs): Promise<ExitCode> {
+  async function handleExecutorEvent(defaultParams: CiParam[], wfis: WorkflowInputs): Promise<{ exitCode: ExitCode, resFullPath?: string }> {
     const workflowRunId = context.runId;
     const workflowRunNum = context.runNumber;
     const workDir = process.cwd();
@@ -202,7 +276,7 @@ export const handleCurrentEvent = async (): Promise<void> => {
     const ciServer = await OctaneClient.getCiServer(ciServerInstanceId);
     if (!ciServer) {
       logger.error(`handleExecutorEvent: Could not find CI server with instanceId: ${ciServerInstanceId}`);
-      return ExitCode.Aborted;
+      return { exitCode: ExitCode.Aborted };
     };
     const causes = [
       {
@@ -243,11 +317,11 @@ export const handleCurrentEvent = async (): Promise<void> => {
       await sendFinishEvent(res, true);
       await GitHubClient.uploadArtifact(config.runnerWorkspacePath, [mbtPropsFullPath, propsFullPath, mtbxFullPath, resFullPath], `temp_files`);
       logger.info(`handleExecutorEvent: Finished with exitCode=${exitCode}.`);
-      return exitCode;
+      return { exitCode, resFullPath };
     } else {
       await sendFinishEvent(Result.ABORTED, false);
       logger.error(`handleExecutorEvent: Failed to convert MBT tests. ExitCode=${ExitCode.Aborted}`);
-      return ExitCode.Aborted;
+      return { exitCode: ExitCode.Aborted };
     };
     async function sendFinishEvent(res: Result, testResExpected: boolean) {
       await sendExecutorFinishEvent(executorName, ciId, parentCiId, `${workflowRunId}`, `${workflowRunNum}`, branch!, startTime, ciServer?.url!, causes, execParams, ciServerInstanceId, testResExpected, res);
@@ -284,42 +358,222 @@ const cleanupTempFolder = async (tmpFullPath: string) => {
   }
 };
 
-const isMinSyncIntervalElapsed = async (minSyncInterval: number): Promise<boolean> => {
-  const lastSyncedTimestamp = await getSyncedTimestamp();
-  const dtNow = new Date();
-  logger.debug(`Current Time: ${dtNow.toISOString() }`);
-  const timeDiffMinutes = (dtNow.getTime() - lastSyncedTimestamp) / (60000);
-  logger.debug(`Time since last sync: ${timeDiffMinutes.toFixed(2)} minutes.`);
-  return Number(timeDiffMinutes) >= minSyncInterval;
+const doTestSync = async (discoveryRes: DiscoveryResult, ymlFileName: string, branch: string) => {
+  for (const [alias, rootDiscoveryRes] of splitByTestRoot(discoveryRes)) {
+    const { ciServerInstanceId, executorName, ciId } = await getCiPredefinedVals(branch, ymlFileName, alias);
+
+    const ciServer = await OctaneClient.getOrCreateCiServer(ciServerInstanceId);
+    const ciJob = await getOrCreateCiJob(executorName, ciId, ciServer, branch);
+    logger.debug(`Ci Job id: ${ciJob.id}, name: ${ciJob.name}, ci_id: ${ciJob.ci_id}`);
+    const tr = await getCreateOrUpdateTestRunner(executorName, ciServer.id, ciJob);
+    logger.debug(`ci_server.id: ${tr.ci_server.id}, ci_job.id: ${tr.ci_job.id}, scm_repository.id: ${tr.scm_repository.id}`);
+    const syncDiscoveryRes = await restrictScopeToBranch(rootDiscoveryRes, tr.scm_repository.id, branch, ymlFileName);
+    await mbtPrepDiscoveryRes4Sync(tr.id, tr.scm_repository.id, syncDiscoveryRes);
+    await dispatchDiscoveryResults(tr.id, tr.scm_repository.id, syncDiscoveryRes);
+  }
 }
 
-const doTestSync = async (discoveryRes: DiscoveryResult, ymlFileName: string, branch: string) => {
-  const { ciServerInstanceId, executorName, ciId } = await getCiPredefinedVals(branch, ymlFileName);
-
-  const ciServer = await OctaneClient.getOrCreateCiServer(ciServerInstanceId);
-  const ciJob = await getOrCreateCiJob(executorName, ciId, ciServer, branch);
-  logger.debug(`Ci Job id: ${ciJob.id}, name: ${ciJob.name}, ci_id: ${ciJob.ci_id}`);
-  const tr = await getCreateOrUpdateTestRunner(executorName, ciServer.id, ciJob);
-  logger.debug(`ci_server.id: ${tr.ci_server.id}, ci_job.id: ${tr.ci_job.id}, scm_repository.id: ${tr.scm_repository.id}`);
-  await mbtPrepDiscoveryRes4Sync(tr.id, tr.scm_repository.id, discoveryRes);
-  await dispatchDiscoveryResults(tr.id, tr.scm_repository.id, discoveryRes);
+// the discovery runs once, its result is synced to each workspace in turn. Afterwards the client is switched back to the main workspace,
+// which keeps the sync state and runs the tests
+const forEachWorkspace = async (syncWorkspace: (workspaceId: number) => Promise<void>) => {
+  try {
+    for (const workspaceId of config.octaneWorkspaces) {
+      OctaneClient.setWorkspace(workspaceId);
+      await syncWorkspace(workspaceId);
+    }
+  } finally {
+    OctaneClient.setWorkspace(config.octaneWorkspace);
+  }
+}
+
+// the tests of a test root with an alias are synced to their own test runner (and its auto discovered folder), the rest to the default one.
+// a test root without changes is skipped by an incremental sync. The test runners share the SCM repository, so the scope of each result
+// is limited to its test roots, a full sync must not delete the data tables of the other ones
+const splitByTestRoot = (discoveryRes: DiscoveryResult): Map<string, DiscoveryResult> => {
+  const pathFilter = PathFilter.fromConfig();
+  const aliases = pathFilter.getAliases();
+  const resByAlias = new Map<string, DiscoveryResult>();
+  for (const alias of ['', ...aliases]) {
+    const rootDiscoveryRes = discoveryRes.filter(relativePath => pathFilter.isIncluded(relativePath) && pathFilter.getAlias(relativePath) === alias);
+    if (!aliases.length || rootDiscoveryRes.hasChanges() || rootDiscoveryRes.isFullSync()) {
+      resByAlias.set(alias, rootDiscoveryRes);
+    }
+  }
+  return resByAlias;
+}
+
+// the test runners of the other branches (and workflows) may share the SCM repository as well. A full sync cannot tell the data tables
+// they discovered from the deleted ones, so it keeps the data tables it does not find
+const restrictScopeToBranch = async (rootDiscoveryRes: DiscoveryResult, scmRepositoryId: number, branch: string, ymlFileName: string): Promise<DiscoveryResult> => {
+  if (!rootDiscoveryRes.isFullSync() || scmRepositoryId < 0) {
+    return rootDiscoveryRes;
+  }
+  const aliases = ['', ...PathFilter.fromConfig().getAliases()];
+  const branchExecutorNames = await Promise.all(aliases.map(async alias => (await getCiPredefinedVals(branch, ymlFileName, alias)).executorName));
+  const otherExecutors = (await OctaneClient.fetchExecutorsOfScmRepository(scmRepositoryId, TEST_RUNNER_SUBTYPE)).filter(e => !branchExecutorNames.includes(e.name));
+  if (!otherExecutors.length) {
+    return rootDiscoveryRes;
+  }
+  logger.warn(`The SCM repository is shared with the test runners ${otherExecutors.map(e => e.name).join(', ')}, the data tables which are not found are kept.`);
+  return rootDiscoveryRes.restrictScope(() => false);
+}
+
+// returns false if the run was canceled, its changes are then synced by a later (or a dispatched follow-up) run
+const awaitMinSyncInterval = async (syncStateStore: SyncStateStore, eventType: ActionsEventType, ymlFileName: string, branch: string): Promise<boolean> => {
+  const minSyncInterval = config.minSyncInterval;
+  logger.info(`minSyncInterval = ${minSyncInterval} minutes.`);
+  const remainingMs = await getRemainingSyncInterval(syncStateStore, minSyncInterval);
+  if (remainingMs <= 0) {
+    return true;
+  }
+
+  const mode = config.syncIntervalMode as SyncIntervalMode; // validated when the config is loaded
+  // a follow-up run is dispatched only from a push, the follow-up itself waits
+  if (mode === SyncIntervalMode.WAIT || (mode === SyncIntervalMode.DISPATCH && eventType === ActionsEventType.WORKFLOW_DISPATCH)) {
+    logger.info(`Waiting ${Math.ceil(remainingMs / 1000)} seconds for the minimum time interval to elapse since the last sync ...`);
+    await sleep(remainingMs);
+    return true;
+  }
+
+  let msg = `The minimum time interval of ${minSyncInterval} minutes has not yet elapsed since the last sync.`;
+  if (mode === SyncIntervalMode.DISPATCH) {
+    if (await GitHubClient.hasPendingWorkflowDispatchRun(ymlFileName, branch)) {
+      msg += ' A follow-up sync run is already pending.';
+    } else {
+      await GitHubClient.dispatchWorkflow(ymlFileName, branch);
+      msg += ' A follow-up sync run was dispatched.';
+    }
+  }
+  logger.warn(msg);
+  notice(msg, { title: 'Run Canceled' });
+  await GitHubClient.cancelWorkflowRun();
+  return false;
 }
 
-const getCiPredefinedVals = async (branch: string, ymlFileName: string): Promise<{ ciServerInstanceId: string; executorName: string; ciId: string; parentCiId: string }> => {
+// the commits are reported on the executor's CI job, a failure is only logged so it does not affect the sync
+const sendScmEvent = async (oldCommit: string | null, newCommit: string, ymlFileName: string, branch: string, startTime: number) => {
+  const { ciServerInstanceId, executorName, ciId, parentCiId } = await getCiPredefinedVals(branch, ymlFileName);
+  try {
+    const ciServer = await OctaneClient.getCiServer(ciServerInstanceId);
+    if (!ciServer) {
+      logger.warn(`sendScmEvent: Could not find CI server with instanceId: ${ciServerInstanceId}`);
+      return;
+    }
+    const scmData = await getScmData(oldCommit, newCommit, branch);
+    await sendExecutorScmEvent(executorName, ciId, parentCiId, `${context.runId}`, `${context.runNumber}`, branch, startTime, ciServer.url, scmData, ciServerInstanceId);
+  } catch (error: any) {
+    logger.warn(`sendScmEvent: Failed to send the SCM data: ${error.message}`);
+  }
+}
+
+// same as doTestSync, but only reads from Octane: the changes are collected in a sync plan instead of being applied
+const doTestSyncDryRun = async (discoveryRes: DiscoveryResult, ymlFileName: string, branch: string): Promise<SyncPlan> => {
+  const syncPlan = new SyncPlan();
+  OctaneClient.setDryRun(syncPlan);
+  try {
+    for (const [alias, rootDiscoveryRes] of splitByTestRoot(discoveryRes)) {
+      const { executorName } = await getCiPredefinedVals(branch, ymlFileName, alias);
+      let executorId: number, scmRepositoryId: number;
+      const tr = await OctaneClient.getExecutor(executorName, TEST_RUNNER_SUBTYPE);
+      if (tr) {
+        executorId = tr.id;
+        scmRepositoryId = tr.scm_repository.id;
+      } else {
+        logger.info(`Dry run: test runner ${executorName} does not exist yet and would be created.`);
+        // the fake ids of the sync plan are strings, like the ids of OpenText SDP / SDM
+        executorId = Number(syncPlan.addCreated<TestRunnerBody, CiExecutor>('executors', [{ name: executorName, subtype: TEST_RUNNER_SUBTYPE }])[0].id);
+        scmRepositoryId = await OctaneClient.getScmRepositoryId(config.repoUrl).catch(() => -1);
+      }
+      const syncDiscoveryRes = await restrictScopeToBranch(rootDiscoveryRes, scmRepositoryId, branch, ymlFileName);
+      await mbtPrepDiscoveryRes4Sync(executorId, scmRepositoryId, syncDiscoveryRes);
+      await dispatchDiscoveryResults(executorId, scmRepositoryId, syncDiscoveryRes);
+    }
+  } finally {
+    OctaneClient.setDryRun(null);
+  }
+  return syncPlan;
+}
+
+// validates the tests changed by the pull request and comments the planned sync, Octane is updated only after the merge (push event)
+const handlePullRequestEvent = async (discovery: Discovery, event: ActionsEvent, ymlFileName: string, branch: string) => {
+  const pr = event.pull_request;
+  if (!pr?.base?.sha || !pr?.head?.sha) {
+    throw new Error('Event should contain the pull request base and head commits!');
+  }
+  const discoveryRes = await discovery.startPreviewScanning(pr.base.sha, pr.head.sha);
+  const problems = discoveryRes.getProblems();
+
+  let body = `### OpenText SDP / SDM sync preview for \`${branch}\`\n\n`;
+  if (problems.length) {
+    body += `:x: ${problems.length} changed test file(s) could not be parsed:\n`;
+    body += problems.map(p => `- \`${p.path}\` (${p.testType}): ${p.message}`).join('\n') + '\n\n';
+  }
+  await forEachWorkspace(async workspaceId => {
+    const syncPlan = await doTestSyncDryRun(discoveryRes.clone(), ymlFileName, branch);
+    await publishSyncPlan(syncPlan, workspaceId);
+    if (config.octaneWorkspaces.length > 1) {
+      body += `#### Workspace ${workspaceId}\n\n`;
+    }
+    body += syncPlan.toMarkdown() + '\n';
+  });
+  const { executorName } = await getCiPredefinedVals(branch, ymlFileName);
+  try {
+    await GitHubClient.upsertPullRequestComment(pr.number, `octane-mbt-sync-preview:${executorName}`, body);
+  } catch (error: any) {
+    logger.warn(`Failed to comment on pull request #${pr.number}, make sure the token has 'pull-requests: write' permission: ${error.message}`);
+  }
+
+  if (problems.length) {
+    await reportDiscoveryProblems(problems);
+    setFailed(`${problems.length} changed test file(s) could not be parsed.`);
+  }
+}
+
+// annotates the offending files and lists the problems in the job summary
+const reportDiscoveryProblems = async (problems: ReadonlyArray<DiscoveryProblem>) => {
+  logger.warn(`The discovery found ${problems.length} problem(s).`);
+  problems.forEach(p => annotateError(p.message, { title: `Discovery problem (${p.testType} test)`, file: p.path.split(path.sep).join('/') }));
+  await summary.addHeading('MBT discovery problems', 2)
+    .addTable([
+      [{ data: 'Path', header: true }, { data: 'Test type', header: true }, { data: 'Problem', header: true }, { data: 'Effect', header: true }],
+      ...problems.map(p => [p.path, p.testType ?? '', p.message, p.isTestSkipped ? 'test skipped, its units are kept' : 'test synced'])
+    ])
+    .write();
+}
+
+// with several workspaces, each one has its own sync plan artifact and job summary section
+const publishSyncPlan = async (syncPlan: SyncPlan, workspaceId: number) => {
+  const suffix = config.octaneWorkspaces.length > 1 ? `_${workspaceId}` : '';
+  syncPlan.print();
+  const planFullPath = path.join(config.runnerWorkspacePath, `${path.basename(SYNC_PLAN_FILE, '.json')}${suffix}.json`);
+  await syncPlan.writeJson(planFullPath);
+  await GitHubClient.uploadArtifact(config.runnerWorkspacePath, [planFullPath], `sync_plan${suffix}`);
+  await syncPlan.writeJobSummary(suffix ? `MBT discovery sync plan for workspace ${workspaceId} (dry run)` : undefined);
+}
+
+// a test root alias is appended to the executor name and to its ci id, so each aliased test root has its own test runner
+const getCiPredefinedVals = async (branch: string, ymlFileName: string, testRootAlias: string = ''): Promise<{ ciServerInstanceId: string; executorName: string; ciId: string; parentCiId: string }> => {
   const octaneVersion = await OctaneClient.getCachedOctaneVersion();
   const ymlFileNameWithoutExt = path.basename(ymlFileName, path.extname(ymlFileName));
   const ciServerInstanceId = `GHA-MBT-${config.owner}~${config.repo}`;
-  const executorName = `GHA-MBT-${config.owner}.${config.repo}.${branch}.${ymlFileNameWithoutExt}`;
+  const executorName = `${getTestRunnerName(branch, ymlFileNameWithoutExt)}${testRootAlias ? `.${testRootAlias}` : ''}`;
   let prefix = "", sep = "/"; 
   if (isVersionGreater(octaneVersion, THRESHOLD_OCTANE_VERSION)) {
     prefix = `${PLUGIN_VERSION}${SEP}`;
     sep = SEP;
   }
   const parentCiId = `${prefix}${config.owner}${sep}${config.repo}${sep}${ymlFileName}${sep}executor`;
-  const ciId = `${parentCiId}${sep}${branch}`;
+  const ciId = `${parentCiId}${sep}${branch}${testRootAlias ? `${sep}${testRootAlias}` : ''}`;
   return { ciServerInstanceId, executorName, ciId, parentCiId };
 }
 
+// the runner dedicated folder of the units is named after the test runner as well
+const getTestRunnerName = (branch: string, workflowName: string): string => {
+  const template = config.testRunnerName || 'GHA-MBT-{owner}.{repo}.{branch}.{workflow}';
+  const vals: Record<string, string> = { owner: config.owner, repo: config.repo, branch, workflow: workflowName };
+  return template.replace(/\{(owner|repo|branch|workflow)\}/g, (_, key: string) => vals[key]);
+}
+
 // Helper function to check if all required keys are present in ciParams
 function hasExecutorKeys(params: CiParam[]): boolean {
   if (!params?.length) {
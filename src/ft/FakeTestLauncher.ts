@@ -0,0 +1,173 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { ExitCode } from './ExitCode';
+import FTL from './FTL';
+import TestLauncher from './TestLauncher';
+import { Logger } from '../utils/logger';
+import { Document } from '@xmldom/xmldom';
+import { escapeXML, getSafeDomParser } from '../utils/utils';
+
+const logger = new Logger('FakeTestLauncher');
+const TEXT_XML = "text/xml";
+const PASSED = 'Passed';
+
+type FakeTestStatus = 'Passed' | 'Failed' | 'Warning';
+
+interface FakeTestOutcome {
+  status?: FakeTestStatus;
+  message?: string;
+  duration?: number; // seconds
+}
+
+// the script (json) drives the results of the fake runs, the tests are matched by name or by run id
+interface FakeLauncherScript {
+  preProcessExitCode?: ExitCode;
+  exitCode?: ExitCode;
+  defaultStatus?: FakeTestStatus;
+  tests?: { [testNameOrRunId: string]: FakeTestOutcome };
+}
+
+interface MtbxTest {
+  runId: string;
+  name: string;
+  path: string;
+}
+
+// does not run anything: generates the same output files as HpToolsLauncher, so the execution flow can be tested on any OS
+export default class FakeTestLauncher implements TestLauncher {
+  private readonly _scriptFullPath?: string;
+
+  constructor(scriptFullPath?: string) {
+    this._scriptFullPath = scriptFullPath;
+  }
+
+  public async launch(propsFullPath: string): Promise<ExitCode> {
+    logger.info(`launch: [${propsFullPath}] ...`);
+    const props = this.parseProps(await fs.readFile(propsFullPath, 'utf8'));
+    const script = await this.loadScript();
+    switch (props.runType) {
+      case FTL.MBT:
+        await this.generateMbtTests(props);
+        return script.preProcessExitCode ?? ExitCode.Passed;
+      case FTL.FileSystem:
+        return await this.runTests(props, script);
+      default:
+        logger.error(`launch: unsupported runType '${props.runType}'`);
+        return ExitCode.Aborted;
+    }
+  }
+
+  private async loadScript(): Promise<FakeLauncherScript> {
+    if (!this._scriptFullPath) {
+      return {};
+    }
+    try {
+      return JSON.parse(await fs.readFile(this._scriptFullPath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to load the fake launcher script [${this._scriptFullPath}]: ${error.message}`);
+    }
+  }
+
+  // reverts escapePropVal, a key and its value are separated by the first unescaped '='
+  private parseProps(content: string): { [key: string]: string } {
+    const props: { [key: string]: string } = {};
+    for (const line of content.split(/\r?\n/)) {
+      const match = /^([^=]+?)=(.*)$/.exec(line);
+      if (match) {
+        props[match[1].trim()] = match[2].replace(/\\(.)/g, '$1');
+      }
+    }
+    return props;
+  }
+
+  // the real launcher generates a UFT One test per MBT test, here only its folder is created with the received script
+  private async generateMbtTests(props: { [key: string]: string }): Promise<void> {
+    for (let idx = 1; props[`test${idx}`]; idx++) {
+      const testDir = path.join(props.parentFolder, props[`package${idx}`], props[`test${idx}`]);
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(path.join(testDir, 'script.txt'), props[`script${idx}`] ?? '', 'utf8');
+      logger.debug(`generateMbtTests: [${testDir}]`);
+    }
+  }
+
+  private async runTests(props: { [key: string]: string }, script: FakeLauncherScript): Promise<ExitCode> {
+    const tests = await this.parseMtbxFile(props.Test1);
+    const testCases: string[] = [];
+    let failures = 0, totalDuration = 0;
+    for (const test of tests) {
+      const outcome = script.tests?.[test.name] ?? script.tests?.[test.runId] ?? {};
+      const status = outcome.status ?? script.defaultStatus ?? PASSED;
+      const duration = outcome.duration ?? 1;
+      totalDuration += duration;
+      await this.writeRunResults(test, status, duration, outcome.message);
+      let testCase = `\t\t<testcase name="${escapeXML(test.name)}" runid="${escapeXML(test.runId)}" time="${duration}"`;
+      if (status === 'Failed') {
+        failures++;
+        testCase += `>\n\t\t\t<failure message="${escapeXML(outcome.message ?? 'Test failed')}">${escapeXML(outcome.message)}</failure>\n\t\t</testcase>`;
+      } else {
+        testCase += ' />';
+      }
+      testCases.push(testCase);
+      logger.info(`${test.name} (runId=${test.runId}): ${status}`);
+    }
+
+    const junit = `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites>\n\t<testsuite name="${FTL.FileSystem}" tests="${tests.length}" failures="${failures}" time="${totalDuration}">\n${testCases.join('\n')}\n\t</testsuite>\n</testsuites>\n`;
+    await fs.writeFile(props.resultsFilename, junit, 'utf8');
+
+    if (script.exitCode !== undefined) {
+      return script.exitCode;
+    }
+    return failures === 0 ? ExitCode.Passed : (failures === tests.length ? ExitCode.Failed : ExitCode.Unstable);
+  }
+
+  private async parseMtbxFile(mtbxFullPath: string): Promise<MtbxTest[]> {
+    const doc = getSafeDomParser().parseFromString(await fs.readFile(mtbxFullPath, 'utf8'), TEXT_XML) as Document;
+    const testNodes = doc.getElementsByTagName('Test');
+    const tests: MtbxTest[] = [];
+    for (let i = 0; i < testNodes.length; i++) {
+      const node = testNodes.item(i)!;
+      tests.push({ runId: node.getAttribute('runid') ?? '', name: node.getAttribute('name') ?? '', path: node.getAttribute('path') ?? '' });
+    }
+    return tests;
+  }
+
+  // the same folder layout and report structure as UFT One: <test>/Report/run_results.xml with test > iteration > action > step nodes
+  private async writeRunResults(test: MtbxTest, status: FakeTestStatus, duration: number, message?: string): Promise<void> {
+    const reportDir = path.join(test.path, 'Report');
+    await fs.mkdir(reportDir, { recursive: true });
+    const node = (type: string, name: string, children: string = '', description?: string) =>
+      `<ReportNode type="${type}"><Data><Name>${escapeXML(name)}</Name><Result>${status}</Result><Duration>${duration}</Duration>` +
+      `${description ? `<Description>${escapeXML(description)}</Description>` : ''}</Data>${children}</ReportNode>`;
+    const step = status === PASSED ? '' : node('Step', 'Step', '', message ?? `Test ${status.toLowerCase()}`);
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<Results version="1.0">${node('testrun', test.name, node('Iteration', 'Iteration 1', node('Action', 'Action1', step)))}</Results>\n`;
+    await fs.writeFile(path.join(reportDir, 'run_results.xml'), xml, 'utf8');
+  }
+}
@@ -32,6 +32,7 @@ import { UftTestInfo } from '../mbt/MbtTestData';
 import { Logger } from '../utils/logger';
 import { ExitCode } from './ExitCode';
 import FTL from './FTL';
+import { getTestLauncher } from '../service/testLauncherService';
 import { checkFileExists, checkReadWriteAccess, escapePropVal, getTimestamp } from '../utils/utils';
 import { config } from '../config/config';
 
@@ -44,8 +45,7 @@ export default class FtTestExecuter {
     const suffix = getTimestamp();
     const { propsFullPath, resFullPath, mtbxFullPath } = await this.createPropsFile(suffix, testInfos);
     await checkFileExists(propsFullPath);
-    const actionBinPath = await FTL.ensureToolExists();
-    const exitCode = await FTL.runTool(actionBinPath, propsFullPath);
+    const exitCode = await getTestLauncher().launch(propsFullPath);
     logger.debug(`process: exitCode=${exitCode}`);
     return { exitCode, resFullPath, propsFullPath, mtbxFullPath };
   }
@@ -35,6 +35,7 @@ import { TspParseError } from '../utils/TspParseError';
 import { MbtScriptData, MbtTestInfo } from './MbtTestData';
 import { ExitCode } from '../ft/ExitCode';
 import FTL from '../ft/FTL';
+import { getTestLauncher } from '../service/testLauncherService';
 import { config } from '../config/config';
 
 const logger = new Logger('MbtPreTestExecuter');
@@ -44,8 +45,7 @@ export default class MbtPreTestExecuter {
     logger.debug(`preProcess: mbtTestInfos.length=${mbtTestInfos.length} ...`);
     const mbtPropsFullPath = await this.createMbtPropsFile(mbtTestInfos);
     await checkFileExists(mbtPropsFullPath);
-    const actionBinPath = await FTL.ensureToolExists();
-    const exitCode = await FTL.runTool(actionBinPath, mbtPropsFullPath);
+    const exitCode = await getTestLauncher().launch(mbtPropsFullPath);
     logger.debug(`preProcess: exitCode=${exitCode}`);
     return { ok: (exitCode === ExitCode.Passed), mbtPropsFullPath };
   }
@@ -91,6 +91,7 @@ export class JUnitXmlIterator {
         externalURL = `${repoUrl}/actions/runs/${this.buildInfo.buildId}/artifacts/${this.buildInfo.runId2artifactIdMap.get(runId)}`;
       }
     } else {
+      this.resultData = [];
       logger.error(`processTestCase: Run results file not found for runId: ${runId}`);
     }
 
@@ -0,0 +1,98 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as core from '@actions/core';
+import { JUnitTestResult } from './JUnitTestResult';
+import { RunResultsStep } from './interfaces';
+import { Logger } from '../utils/logger';
+import { escapeXML } from '../utils/utils';
+
+const logger = new Logger('JobSummaryBuilder');
+const MAX_STEP_ROWS = 200; // per test, the job summary is limited to 1MiB
+
+// renders the MBT test results as markdown / html in the job summary of the workflow run
+export class JobSummaryBuilder {
+  private readonly testResults: JUnitTestResult[];
+
+  constructor(testResults: JUnitTestResult[]) {
+    this.testResults = testResults;
+  }
+
+  public async write(): Promise<void> {
+    logger.debug(`write: ${this.testResults.length} test results ...`);
+    const summary = core.summary.addHeading('MBT test results', 2);
+    if (!this.testResults.length) {
+      await summary.addRaw('No test results were found.', true).write();
+      return;
+    }
+
+    const counts = new Map<string, number>();
+    this.testResults.forEach(tr => counts.set(tr.result, (counts.get(tr.result) ?? 0) + 1));
+    summary.addList(Array.from(counts, ([status, count]) => `${status}: ${count}`));
+    summary.addTable([
+      [{ data: 'Test', header: true }, { data: 'Run Id', header: true }, { data: 'Status', header: true }, { data: 'Duration (s)', header: true }, { data: 'Error', header: true }, { data: 'Report', header: true }],
+      ...this.testResults.map(tr => [
+        escapeXML(tr.testName),
+        `${tr.runId ?? ''}`,
+        this.formatStatus(tr.result),
+        tr.duration.toFixed(2),
+        this.formatMessage(tr.testError?.errorMsg),
+        tr.externalReportUrl ? `<a href="${tr.externalReportUrl}">run_results_${tr.runId}</a>` : ''
+      ])
+    ]);
+
+    for (const tr of this.testResults.filter(t => t.resultData.length)) {
+      summary.addDetails(`${this.formatStatus(tr.result)} ${escapeXML(tr.testName)}`, this.buildStepsHtml(tr));
+    }
+    await summary.write();
+  }
+
+  private buildStepsHtml(tr: JUnitTestResult): string {
+    let html = '';
+    tr.resultData.forEach((iteration, idx) => {
+      const rows = iteration.steps.slice(0, MAX_STEP_ROWS).map((s: RunResultsStep) =>
+        `<tr><td>${escapeXML(s.name)}</td><td>${this.formatStatus(s.status)}</td><td>${s.duration}</td><td>${this.formatMessage(s.errorMessage)}</td></tr>`);
+      html += `<h4>Iteration ${idx + 1}</h4>`;
+      html += `<table><tr><th>Step</th><th>Status</th><th>Duration (s)</th><th>Error</th></tr>${rows.join('')}</table>`;
+      if (iteration.steps.length > MAX_STEP_ROWS) {
+        html += `<p>Showing the first ${MAX_STEP_ROWS} of ${iteration.steps.length} steps, see the run results artifact for the full report.</p>`;
+      }
+    });
+    return html;
+  }
+
+  private formatStatus(status: string): string {
+    if (/passed/i.test(status)) return `✅ ${status}`;
+    if (/failed/i.test(status)) return `❌ ${status}`;
+    return `⚠️ ${status}`;
+  }
+
+  private formatMessage(msg?: string): string {
+    return msg ? escapeXML(msg.trim()).replace(/\n/g, '<br>') : '';
+  }
+}
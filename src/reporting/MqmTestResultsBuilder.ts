@@ -32,6 +32,7 @@ import { create } from 'xmlbuilder';
 import { TestResult } from './TestResult';
 import { Logger } from '../utils/logger';
 import { BuildInfo } from './interfaces';
+import { JobSummaryBuilder } from './JobSummaryBuilder';
 
 const logger = new Logger('MqmTestResultsBuilder');
 
@@ -96,6 +97,8 @@ export class MqmTestResultsBuilder {
 
       logger.debug(`invoke: Finished writing test results to ${this.mqmTestsFile}`);
 
+      await new JobSummaryBuilder(testResults).write();
+
     } catch (error) {
       logger.error('Error in invoke method:', error as Error);
     }
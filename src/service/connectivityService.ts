@@ -0,0 +1,75 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import OctaneClient from '../client/octaneClient';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+
+const logger: Logger = new Logger('connectivityService');
+
+// fails fast with a hint on the setting to fix, instead of an SDK error in the middle of the discovery or the execution
+const verifyOctaneAccess = async (): Promise<void> => {
+  logger.info(`Verifying the connection to ${config.octaneUrl} ...`);
+  try {
+    const octaneVersion = await OctaneClient.getCachedOctaneVersion();
+    logger.info(`OpenText SDP / SDM version: ${octaneVersion}`);
+  } catch (error: any) {
+    throw new Error(`Could not connect to OpenText SDP / SDM shared space ${config.octaneSharedSpace}: ${describeAccessError(error, 'octaneSharedSpace')}`);
+  }
+
+  try {
+    for (const workspaceId of config.octaneWorkspaces) {
+      OctaneClient.setWorkspace(workspaceId);
+      try {
+        await OctaneClient.checkReadAccess();
+      } catch (error: any) {
+        throw new Error(`Could not access workspace ${workspaceId}: ${describeAccessError(error, workspaceId === config.octaneWorkspace ? 'octaneWorkspace' : 'octaneWorkspaces')}`);
+      }
+    }
+  } finally {
+    OctaneClient.setWorkspace(config.octaneWorkspace);
+  }
+};
+
+// also used by the self-check to explain a failed request
+const describeAccessError = (error: any, idInputName: string): string => {
+  const status = error?.response?.status ?? error?.status ?? error?.statusCode;
+  switch (status) {
+    case 401:
+      return 'the credentials were rejected, check octaneClientId and octaneClientSecret.';
+    case 403:
+      return 'access denied, make sure the API access key has the CI/CD Integration role.';
+    case 404:
+      return `not found, check ${idInputName} and octaneUrl.`;
+    default:
+      return `${status ? `status ${status}, ` : ''}${error?.message ?? error}. Check octaneUrl and the network access from the runner.`;
+  }
+};
+
+export { verifyOctaneAccess, describeAccessError };
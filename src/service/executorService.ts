@@ -38,6 +38,7 @@ import {
 } from '../dto/octane/events/CiTypes';
 import CiExecutor from '../dto/octane/general/CiExecutor';
 import CiJob from '../dto/octane/general/CiJob';
+import ScmData from '../dto/octane/scm/ScmData';
 import { Logger } from '../utils/logger';
 
 const logger: Logger = new Logger('executorService');
@@ -125,6 +126,35 @@ const sendExecutorFinishEvent = async (
   await OctaneClient.sendEvent(evt, ciServerInstanceId, baseUrl);
 };
 
+const sendExecutorScmEvent = async (
+  executorName: string,
+  executorCiId: string,
+  parentCiId: string,
+  buildCiId: string,
+  runNumber: string,
+  branch: string,
+  startTime: number,
+  baseUrl: string,
+  scmData: ScmData,
+  ciServerInstanceId: string
+): Promise<void> => {
+  logger.debug(`sendExecutorScmEvent: commits=${scmData.commits.length} ...`);
+  const evt: CiEvent = {
+    buildCiId,
+    eventType: CiEventType.SCM,
+    number: runNumber,
+    parentCiId,
+    project: executorCiId,
+    projectDisplayName: executorName,
+    startTime,
+    branch,
+    phaseType: PhaseType.INTERNAL,
+    scmData,
+    skipValidation: true
+  };
+  await OctaneClient.sendEvent(evt, ciServerInstanceId, baseUrl);
+};
+
 const buildExecutorName = (
   executorNamePattern: string,
   repositoryOwner: string,
@@ -156,5 +186,6 @@ export {
   getCreateOrUpdateTestRunner,
   buildExecutorName,
   sendExecutorStartEvent,
-  sendExecutorFinishEvent
+  sendExecutorFinishEvent,
+  sendExecutorScmEvent
 };
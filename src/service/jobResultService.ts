@@ -0,0 +1,93 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { setFailed, setOutput, warning } from '@actions/core';
+import { config } from '../config/config';
+import { ExitCode } from '../ft/ExitCode';
+import { JobResult } from '../ft/JobResult';
+import { JUnitParser } from '../reporting/JUnitParser';
+import { Logger } from '../utils/logger';
+
+const logger: Logger = new Logger('jobResultService');
+
+const countTestResults = async (resFullPath?: string): Promise<{ passed: number; failed: number }> => {
+  let passed = 0, failed = 0;
+  if (!resFullPath) {
+    return { passed, failed };
+  }
+  try {
+    const testRes = await new JUnitParser(resFullPath, false).parseResult();
+    for (const suite of testRes.suites) {
+      for (const tc of suite.cases) {
+        if (tc.errorStackTrace || tc.errorDetails) {
+          failed++;
+        } else if (!tc.skipped) {
+          passed++;
+        }
+      }
+    }
+  } catch (error: any) {
+    logger.warn(`countTestResults: Failed to read [${resFullPath}]: ${error.message}`);
+  }
+  return { passed, failed };
+};
+
+const mapExitCode = (exitCode: ExitCode): JobResult => {
+  switch (exitCode) {
+    case ExitCode.Passed:
+      return JobResult.SUCCESS;
+    case ExitCode.Failed:
+      return config.failOnTestFailure ? JobResult.FAILURE : JobResult.NEUTRAL;
+    case ExitCode.Unstable:
+      return config.unstableAs as JobResult; // validated when the config is loaded
+    default: // the tests did not run (Aborted / Unkonwn), regardless of the policy
+      return JobResult.FAILURE;
+  }
+};
+
+// exposes the execution result as step outputs and fails / warns the job according to failOnTestFailure and unstableAs
+const reportExecutionResult = async (exitCode: ExitCode, resFullPath?: string): Promise<void> => {
+  logger.debug(`reportExecutionResult: exitCode=${exitCode}, resFullPath=[${resFullPath ?? ''}] ...`);
+  const { passed, failed } = await countTestResults(resFullPath);
+  const result = mapExitCode(exitCode);
+  setOutput('exitCode', exitCode);
+  setOutput('result', result);
+  setOutput('passed', passed);
+  setOutput('failed', failed);
+  logger.info(`Execution result: ${result} (exitCode=${exitCode}, passed=${passed}, failed=${failed}).`);
+
+  const msg = `Test execution finished with exitCode=${ExitCode[exitCode] ?? exitCode}: ${passed} passed, ${failed} failed.`;
+  if (result === JobResult.FAILURE) {
+    setFailed(msg);
+  } else if (result === JobResult.NEUTRAL) {
+    warning(msg, { title: 'Tests Not Passed' });
+  }
+};
+
+export { reportExecutionResult };
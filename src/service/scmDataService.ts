@@ -0,0 +1,84 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import GitHubClient from '../client/githubClient';
+import { config } from '../config/config';
+import Commit from '../dto/github/Commit';
+import { SCMType } from '../dto/octane/events/CiTypes';
+import ScmChangeType from '../dto/octane/scm/ScmChangeType';
+import ScmCommit from '../dto/octane/scm/ScmCommit';
+import ScmCommitChange from '../dto/octane/scm/ScmCommitChange';
+import ScmData from '../dto/octane/scm/ScmData';
+import { Logger } from '../utils/logger';
+
+const logger: Logger = new Logger('scmDataService');
+
+const toScmCommitChange = (file: { filename: string; status: string; previous_filename?: string }): ScmCommitChange => {
+  switch (file.status) {
+    case 'added':
+    case 'copied':
+      return { type: ScmChangeType.ADD, file: file.filename };
+    case 'removed':
+      return { type: ScmChangeType.DELETE, file: file.filename };
+    case 'renamed':
+      return { type: ScmChangeType.EDIT, file: file.previous_filename ?? file.filename, renameToFile: file.filename };
+    default:
+      return { type: ScmChangeType.EDIT, file: file.filename };
+  }
+};
+
+const toScmCommit = (commit: Commit): ScmCommit => {
+  const author = commit.commit.author;
+  return {
+    time: author?.date ? new Date(author.date).getTime() : new Date().getTime(),
+    user: author?.name ?? '',
+    userEmail: author?.email,
+    revId: commit.sha,
+    parentRevId: commit.parents[0]?.sha,
+    comment: commit.commit.message,
+    changes: (commit.files ?? []).map(toScmCommitChange)
+  };
+};
+
+// collects the commits after fromSha up to toSha (only toSha if there is no previous sync), oldest first
+const getScmData = async (fromSha: string | null, toSha: string, branch: string): Promise<ScmData> => {
+  logger.debug(`getScmData: fromSha=${fromSha}, toSha=${toSha}, branch=${branch} ...`);
+  const shas = fromSha ? await GitHubClient.getCommitShasBetween(fromSha, toSha) : [toSha];
+  const commits: ScmCommit[] = [];
+  for (const sha of shas) {
+    commits.push(toScmCommit(await GitHubClient.getCommit(sha)));
+  }
+  logger.info(`Collected ${commits.length} commit(s) for the SCM event.`);
+  return {
+    repository: { type: SCMType.GIT, url: config.repoUrl, branch },
+    commits
+  };
+};
+
+export { getScmData };
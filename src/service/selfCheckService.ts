@@ -0,0 +1,175 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as core from '@actions/core';
+import OctaneClient from '../client/octaneClient';
+import GitHubClient from '../client/githubClient';
+import { config } from '../config/config';
+import { EntityConstants } from '../dto/octane/general/EntityConstants';
+import { Logger } from '../utils/logger';
+import { describeAccessError } from './connectivityService';
+
+const logger: Logger = new Logger('selfCheckService');
+const CHECK_RESULTS_FILE = 'connectivity_check.json';
+
+enum CheckStatus {
+  PASSED = 'passed',
+  WARNING = 'warning',
+  FAILED = 'failed'
+}
+
+interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  details: string;
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  [CheckStatus.PASSED]: ':white_check_mark:',
+  [CheckStatus.WARNING]: ':warning:',
+  [CheckStatus.FAILED]: ':x:'
+};
+
+// runs all the checks, nothing is synced or executed. The checklist is written to the job summary and the job fails if a check failed
+const runSelfCheck = async (): Promise<void> => {
+  logger.info('Running the connectivity self-check ...');
+  const results: CheckResult[] = [];
+  const run = async (name: string, check: () => Promise<Omit<CheckResult, 'name'>>) => {
+    let result: CheckResult;
+    try {
+      result = { name, ...(await check()) };
+    } catch (error: any) {
+      result = { name, status: CheckStatus.FAILED, details: error.message };
+    }
+    logger.info(`${result.status.toUpperCase()}: ${name}${result.details ? ` - ${result.details}` : ''}`);
+    results.push(result);
+    return result.status !== CheckStatus.FAILED;
+  };
+
+  const isLoggedIn = await run(`Login to ${config.octaneUrl}, shared space ${config.octaneSharedSpace}`, async () => {
+    try {
+      return { status: CheckStatus.PASSED, details: `version ${await OctaneClient.getOctaneVersion()}` };
+    } catch (error: any) {
+      return { status: CheckStatus.FAILED, details: describeAccessError(error, 'octaneSharedSpace') };
+    }
+  });
+  if (isLoggedIn) {
+    try {
+      for (const workspaceId of config.octaneWorkspaces) {
+        OctaneClient.setWorkspace(workspaceId);
+        await checkWorkspace(workspaceId, run);
+      }
+    } finally {
+      OctaneClient.setWorkspace(config.octaneWorkspace);
+    }
+  }
+
+  await run('GitHub token scopes', checkTokenScopes);
+  await run('GitHub token may cancel workflow runs (minSyncInterval)', checkCancelPermission);
+
+  const resultsFullPath = path.join(config.runnerWorkspacePath, CHECK_RESULTS_FILE);
+  await fs.promises.writeFile(resultsFullPath, JSON.stringify(results, null, 2), 'utf8');
+  await run('Artifact upload', async () => {
+    const artifactId = await GitHubClient.uploadArtifact(config.runnerWorkspacePath, [resultsFullPath], 'connectivity_check');
+    return artifactId >= 0 ? { status: CheckStatus.PASSED, details: '' } : { status: CheckStatus.FAILED, details: 'see the log for the upload error' };
+  });
+
+  await writeJobSummary(results);
+  const failed = results.filter(r => r.status === CheckStatus.FAILED).length;
+  if (failed) {
+    core.setFailed(`${failed} of ${results.length} connectivity check(s) failed.`);
+  } else {
+    logger.info(`All ${results.length} connectivity checks passed.`);
+  }
+};
+
+const checkWorkspace = async (workspaceId: number, run: (name: string, check: () => Promise<Omit<CheckResult, 'name'>>) => Promise<boolean>) => {
+  const collections = ['ci_servers', EntityConstants.Executors.COLLECTION_NAME, EntityConstants.ModelFolder.COLLECTION_NAME];
+  for (const collectionName of collections) {
+    await run(`Workspace ${workspaceId}: read ${collectionName}`, async () => {
+      try {
+        await OctaneClient.checkReadAccess(collectionName);
+        return { status: CheckStatus.PASSED, details: '' };
+      } catch (error: any) {
+        return { status: CheckStatus.FAILED, details: describeAccessError(error, 'octaneWorkspace') };
+      }
+    });
+  }
+
+  await run(`Workspace ${workspaceId}: SCM repository root of ${config.repoUrl}`, async () => {
+    try {
+      return { status: CheckStatus.PASSED, details: `id ${await OctaneClient.getScmRepositoryId(config.repoUrl)}` };
+    } catch (error: any) {
+      return { status: CheckStatus.WARNING, details: `${error.message} It is created with the test runner by the first sync.` };
+    }
+  });
+
+  await run(`Workspace ${workspaceId}: feature toggles`, async () => {
+    const toggles = await OctaneClient.getFeatureToggles();
+    const entries = Object.entries(toggles ?? {});
+    const disabledMbt = entries.filter(([name, isOn]) => /mbt/i.test(name) && !isOn).map(([name]) => name);
+    const details = entries.map(([name, isOn]) => `${name}: ${isOn ? 'on' : 'off'}`).join(', ');
+    return { status: disabledMbt.length ? CheckStatus.WARNING : CheckStatus.PASSED, details: details || 'none' };
+  });
+};
+
+// only a classic personal access token lists its scopes, the permissions of the GITHUB_TOKEN or a fine-grained token are not listed
+const checkTokenScopes = async (): Promise<Omit<CheckResult, 'name'>> => {
+  const scopes = await GitHubClient.getTokenScopes();
+  if (scopes === null) {
+    return { status: CheckStatus.PASSED, details: 'GITHUB_TOKEN or fine-grained token, the repository is accessible' };
+  }
+  // the workflow scope is not needed, it only allows to update the workflow files. Dispatching a workflow requires the repo scope
+  if (!scopes.includes('repo')) {
+    return { status: CheckStatus.FAILED, details: `missing scope: repo, found: ${scopes.join(', ') || 'none'}` };
+  }
+  return { status: CheckStatus.PASSED, details: scopes.join(', ') };
+};
+
+// read only, no run is cancelled to probe the permission. Only the scopes of a classic personal access token can be verified
+const checkCancelPermission = async (): Promise<Omit<CheckResult, 'name'>> => {
+  const scopes = await GitHubClient.getTokenScopes();
+  if (scopes === null) {
+    return { status: CheckStatus.WARNING, details: "cannot be verified for the GITHUB_TOKEN or a fine-grained token, it requires the 'actions: write' permission" };
+  }
+  return scopes.includes('repo') ? { status: CheckStatus.PASSED, details: '' } : { status: CheckStatus.FAILED, details: "the token requires the 'repo' scope" };
+};
+
+const writeJobSummary = async (results: CheckResult[]): Promise<void> => {
+  const summary = core.summary.addHeading('OpenText SDP / SDM connectivity check', 2);
+  summary.addTable([
+    [{ data: '', header: true }, { data: 'Check', header: true }, { data: 'Details', header: true }],
+    ...results.map(r => [STATUS_ICONS[r.status], r.name, r.details])
+  ]);
+  await summary.write();
+};
+
+export { runSelfCheck };
@@ -0,0 +1,64 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import SyncStateStore, { SyncStateStoreType } from '../sync/SyncStateStore';
+import FileSyncStateStore from '../sync/FileSyncStateStore';
+import RepoVariableSyncStateStore from '../sync/RepoVariableSyncStateStore';
+import OctaneSyncStateStore from '../sync/OctaneSyncStateStore';
+
+const logger: Logger = new Logger('syncStateService');
+
+const getSyncStateStore = (executorName: string): SyncStateStore => {
+  const storeType = config.syncStateStore;
+  logger.debug(`getSyncStateStore: type=${storeType}, executorName=${executorName} ...`);
+  switch (storeType) {
+    case SyncStateStoreType.FILE:
+      return new FileSyncStateStore();
+    case SyncStateStoreType.REPO_VARIABLE:
+      return new RepoVariableSyncStateStore(executorName);
+    case SyncStateStoreType.OCTANE:
+      return new OctaneSyncStateStore(executorName);
+    default:
+      throw new Error(`Unsupported sync state store: '${storeType}'. Valid values: ${Object.values(SyncStateStoreType).join(', ')}`);
+  }
+};
+
+// returns the milliseconds left until the minimum sync interval elapses, 0 or less if it already has
+const getRemainingSyncInterval = async (store: SyncStateStore, minSyncInterval: number): Promise<number> => {
+  const lastSyncedTimestamp = await store.getSyncedTimestamp();
+  const dtNow = new Date();
+  logger.debug(`Current Time: ${dtNow.toISOString() }`);
+  const timeDiffMinutes = (dtNow.getTime() - lastSyncedTimestamp) / (60000);
+  logger.debug(`Time since last sync: ${timeDiffMinutes.toFixed(2)} minutes.`);
+  return (minSyncInterval - timeDiffMinutes) * 60000;
+};
+
+export { getSyncStateStore, getRemainingSyncInterval };
@@ -0,0 +1,94 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Logger } from '../utils/logger';
+import { isBlank } from '../utils/utils';
+import SyncStateStore from './SyncStateStore';
+
+const UTF8 = 'utf8';
+const logger: Logger = new Logger('FileSyncStateStore');
+
+// stores the sync state in hidden files in the working directory, so it is kept only on persistent self-hosted runners
+export default class FileSyncStateStore implements SyncStateStore {
+  private readonly _syncedCommitFile: string;
+  private readonly _syncedTimestampFile: string;
+
+  constructor(dir: string = process.cwd()) {
+    this._syncedCommitFile = path.join(dir, '.synced-commit-sha');
+    this._syncedTimestampFile = path.join(dir, '.synced-timestamp');
+  }
+
+  public async saveSyncedCommit(newCommit: string): Promise<void> {
+    if (isBlank(newCommit))
+      return;
+    try {
+      // the commit is written last, so an interrupted save leaves the previous commit, which is synced again by the next run
+      const currentTime = new Date().toISOString();
+      await this.writeFileAtomically(this._syncedTimestampFile, currentTime);
+      logger.debug(`Newly run timestamp ${currentTime} saved to [${this._syncedTimestampFile}]`);
+      await this.writeFileAtomically(this._syncedCommitFile, newCommit.trim());
+      logger.debug(`Newly synced commit ${newCommit} saved to [${this._syncedCommitFile}]`);
+    } catch (error) {
+      throw new Error(`Failed to save string: ${(error as Error).message}`);
+    }
+  }
+
+  public async getSyncedCommit(): Promise<string> {
+    const data = await this.readFileIfExists(this._syncedCommitFile);
+    logger.debug(`Last synced commit: ${data} loaded from [${this._syncedCommitFile}]`);
+    return data.trim();
+  }
+
+  public async getSyncedTimestamp(): Promise<number> {
+    const str = await this.readFileIfExists(this._syncedTimestampFile);
+    logger.debug(`Last synced timestamp: ${str} loaded from [${this._syncedTimestampFile}]`);
+    return str ? new Date(str).getTime() : 0;
+  }
+
+  // a rename within the same folder is atomic, so a reader never gets a partially written file
+  private async writeFileAtomically(filePath: string, data: string): Promise<void> {
+    const tmpFilePath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFilePath, data, UTF8);
+    await fs.rename(tmpFilePath, filePath);
+  }
+
+  private async readFileIfExists(filePath: string): Promise<string> {
+    try {
+      return await fs.readFile(filePath, UTF8);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.debug(`File doesn't exist yet [${filePath}]`);
+        return "";
+      }
+      throw new Error(`Failed to load string: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import OctaneClient from '../client/octaneClient';
+import CiExecutor from '../dto/octane/general/CiExecutor';
+import { Logger } from '../utils/logger';
+import { isBlank } from '../utils/utils';
+import SyncStateStore from './SyncStateStore';
+
+const logger: Logger = new Logger('OctaneSyncStateStore');
+const SYNCED_COMMIT_PREFIX = 'Synced commit: ';
+
+// stores the sync state on the test runner (executor) entity: the commit in its message and the time in its last successful sync
+export default class OctaneSyncStateStore implements SyncStateStore {
+  private readonly _executorName: string;
+  private readonly _executorSubType: string;
+  private _executor: CiExecutor | null | undefined;
+
+  constructor(executorName: string, executorSubType: string = "uft_test_runner") {
+    this._executorName = executorName;
+    this._executorSubType = executorSubType;
+  }
+
+  public async saveSyncedCommit(newCommit: string): Promise<void> {
+    if (isBlank(newCommit))
+      return;
+    // the executor is created during the first sync, so it must be fetched again
+    this._executor = await OctaneClient.getExecutorSyncState(this._executorName, this._executorSubType);
+    if (!this._executor) {
+      throw new Error(`Failed to save the synced commit, test runner ${this._executorName} not found.`);
+    }
+    await OctaneClient.updateExecutorSyncState(this._executor.id, `${SYNCED_COMMIT_PREFIX}${newCommit.trim()}`, new Date().toISOString());
+    logger.debug(`Newly synced commit ${newCommit} saved to test runner [${this._executorName}]`);
+  }
+
+  public async getSyncedCommit(): Promise<string> {
+    const message = (await this.loadExecutor())?.message ?? "";
+    const commit = message.startsWith(SYNCED_COMMIT_PREFIX) ? message.substring(SYNCED_COMMIT_PREFIX.length).trim() : "";
+    logger.debug(`Last synced commit: ${commit} loaded from test runner [${this._executorName}]`);
+    return commit;
+  }
+
+  public async getSyncedTimestamp(): Promise<number> {
+    const lastSync = (await this.loadExecutor())?.last_successful_sync;
+    return lastSync ? new Date(lastSync).getTime() : 0;
+  }
+
+  private async loadExecutor(): Promise<CiExecutor | null> {
+    if (this._executor === undefined) {
+      this._executor = await OctaneClient.getExecutorSyncState(this._executorName, this._executorSubType);
+    }
+    return this._executor;
+  }
+}
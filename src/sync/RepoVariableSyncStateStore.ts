@@ -0,0 +1,84 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import GitHubClient from '../client/githubClient';
+import { Logger } from '../utils/logger';
+import { isBlank } from '../utils/utils';
+import SyncStateStore from './SyncStateStore';
+
+const logger: Logger = new Logger('RepoVariableSyncStateStore');
+
+interface SyncState {
+  commit: string;
+  timestamp: string;
+}
+
+// stores the sync state as json in a repository variable, the token requires write access to the repository variables
+export default class RepoVariableSyncStateStore implements SyncStateStore {
+  private readonly _variableName: string;
+  private _state: SyncState | null | undefined;
+
+  constructor(executorName: string) {
+    // variable names may contain only alphanumeric characters and underscores
+    this._variableName = `OCTANE_SYNC_STATE_${executorName.replace(/[^A-Za-z0-9_]/g, '_')}`.toUpperCase();
+  }
+
+  public async saveSyncedCommit(newCommit: string): Promise<void> {
+    if (isBlank(newCommit))
+      return;
+    const state: SyncState = { commit: newCommit.trim(), timestamp: new Date().toISOString() };
+    await GitHubClient.setRepoVariable(this._variableName, JSON.stringify(state));
+    this._state = state;
+    logger.debug(`Newly synced commit ${state.commit} saved to repository variable [${this._variableName}]`);
+  }
+
+  public async getSyncedCommit(): Promise<string> {
+    const state = await this.loadState();
+    logger.debug(`Last synced commit: ${state?.commit} loaded from repository variable [${this._variableName}]`);
+    return state?.commit ?? "";
+  }
+
+  public async getSyncedTimestamp(): Promise<number> {
+    const state = await this.loadState();
+    return state?.timestamp ? new Date(state.timestamp).getTime() : 0;
+  }
+
+  private async loadState(): Promise<SyncState | null> {
+    if (this._state === undefined) {
+      const value = await GitHubClient.getRepoVariable(this._variableName);
+      try {
+        this._state = value ? JSON.parse(value) : null;
+      } catch (error) {
+        logger.warn(`Invalid value of repository variable [${this._variableName}], it will be overwritten: ${(error as Error).message}`);
+        this._state = null;
+      }
+    }
+    return this._state ?? null;
+  }
+}
@@ -0,0 +1,128 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { context } from '@actions/github';
+import GitHubClient from '../client/githubClient';
+import { Logger } from '../utils/logger';
+import { sleep } from '../utils/utils';
+
+const logger: Logger = new Logger('SyncLock');
+const POLL_INTERVAL_MS = 15000;
+const MAX_LOCK_AGE_MS = 6 * 60 * 60 * 1000; // the maximum duration of a GitHub hosted job
+
+interface LockHolder {
+  runId: number;
+  timestamp: number;
+}
+
+// a lock per test runner, held as a git ref in the repository: creating a ref is atomic, so only one run can acquire it.
+// the ref points to a detached commit whose message holds the run which acquired the lock
+export default class SyncLock {
+  private readonly _ref: string;
+  private _lockSha: string | null = null;
+
+  constructor(executorName: string) {
+    this._ref = `locks/octane-sync/${executorName.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+  }
+
+  // waits up to timeoutMinutes for the lock to be released by another run, returns false if it was not
+  public async acquire(timeoutMinutes: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMinutes * 60000;
+    for (;;) {
+      const heldSha = await GitHubClient.getRefSha(this._ref);
+      if (!heldSha) {
+        const sha = await this.createLockCommit();
+        if (await GitHubClient.createRef(this._ref, sha)) {
+          return this.onAcquired(sha);
+        }
+      } else if (await this.isStale(heldSha)) {
+        // the new lock commit is a child of the stale one, so the (non forced) update fails if another run took over first
+        const sha = await this.createLockCommit([heldSha]);
+        if (await GitHubClient.updateRef(this._ref, sha)) {
+          logger.warn(`Took over the stale sync lock [${this._ref}].`);
+          return this.onAcquired(sha);
+        }
+      }
+      if (Date.now() >= deadline) {
+        logger.warn(`Failed to acquire the sync lock [${this._ref}] within ${timeoutMinutes} minutes.`);
+        return false;
+      }
+      logger.info(`Another sync is in progress, waiting for the lock [${this._ref}] ...`);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  public async release(): Promise<void> {
+    if (!this._lockSha) {
+      return;
+    }
+    try {
+      if (await GitHubClient.getRefSha(this._ref) === this._lockSha) {
+        await GitHubClient.deleteRef(this._ref);
+        logger.debug(`Sync lock [${this._ref}] released.`);
+      }
+    } catch (error: any) {
+      logger.warn(`Failed to release the sync lock [${this._ref}]: ${error.message}`);
+    } finally {
+      this._lockSha = null;
+    }
+  }
+
+  private onAcquired(sha: string): boolean {
+    this._lockSha = sha;
+    logger.info(`Sync lock [${this._ref}] acquired.`);
+    return true;
+  }
+
+  private async createLockCommit(parents: string[] = []): Promise<string> {
+    const holder: LockHolder = { runId: context.runId, timestamp: Date.now() };
+    return await GitHubClient.createDetachedCommit(JSON.stringify(holder), context.sha, parents);
+  }
+
+  // a lock is stale if the run which holds it has completed (e.g. was canceled before releasing it) or is too old
+  private async isStale(lockSha: string): Promise<boolean> {
+    let holder: LockHolder;
+    try {
+      holder = JSON.parse(await GitHubClient.getCommitMessage(lockSha));
+    } catch (error: any) {
+      logger.warn(`Invalid sync lock [${this._ref}]: ${error.message}`);
+      return true;
+    }
+    if (holder.runId === context.runId) {
+      return true; // held by a previous attempt of this run
+    }
+    if (Date.now() - holder.timestamp > MAX_LOCK_AGE_MS) {
+      return true;
+    }
+    try {
+      return (await GitHubClient.getWorkflowRun(holder.runId)).status === 'completed';
+    } catch (error: any) {
+      return error.status === 404;
+    }
+  }
+}
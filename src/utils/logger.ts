@@ -27,7 +27,9 @@
  * limitations under the License.
  */
 
+import { format } from 'util';
 import { config } from '../config/config';
+import { redact } from './redaction';
 
 enum LogLevel {
   TRACE = 1,
@@ -41,7 +43,10 @@ export class Logger {
   isDebugEnabled() {
     return LogLevel.DEBUG >= this.minLevel;
   }
-  private minLevel: number;
+  // read on each call, as the log level of the repository config file is applied after the loggers are created
+  private get minLevel(): number {
+    return config.logLevel;
+  }
   private module: string;
   private readonly levels: {
     [key: number]: { value: number; display: string };
@@ -55,7 +60,6 @@ export class Logger {
 
   constructor(module: string) {
     this.module = module;
-    this.minLevel = config.logLevel;
   }
 
   public trace(message: string, obj?: object | undefined): void {
@@ -66,22 +70,18 @@ export class Logger {
   }
   public debugX(message: string): void {
     if (LogLevel.DEBUG < this.minLevel) return;
-    console.log(message);
+    console.log(redact(message));
   }
   public info(message: string, obj?: object | undefined): void {
     this.log(LogLevel.INFO, message, obj);
   }
   public warn(message: string): void {
     if (LogLevel.WARN < this.minLevel) return;
-    console.warn(`[${LogLevel.WARN}][${this.module}] ${message}`);
+    console.warn(redact(`[${LogLevel.WARN}][${this.module}] ${message}`));
   }
   public error(message: string, err?: Error): void {
     const msg = `[${LogLevel.ERROR}][${this.module}] ${message}`;
-    if (err) {
-      console.error(msg, err);
-    } else {
-      console.error(msg);
-    }
+    console.error(redact(err ? format(msg, err) : msg));
   }
 
   /**
@@ -110,17 +110,13 @@ export class Logger {
   }
 
   /**
-   * Emits a log message.
+   * Emits a log message. The object is formatted as console.log would, then the secrets are redacted from the whole text.
    *
    * @param logLevelPrefix Display name of the log level
    * @param message Message to log
    */
   private emit(logLevelPrefix: string, message: string, obj?: object | undefined): void {
     const msg = `[${logLevelPrefix}][${this.module}] ${message}`;
-    if (obj) {
-      console.log(msg, obj);
-    } else {
-      console.log(msg);
-    }
+    console.log(redact(obj ? format(msg, obj) : msg));
   }
 }
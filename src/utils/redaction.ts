@@ -0,0 +1,72 @@
+/*
+ * Copyright 2025 Open Text.
+ *
+ * The only warranties for products and services of Open Text and
+ * its affiliates and licensors (“Open Text”) are as may be set forth
+ * in the express warranty statements accompanying such products and services.
+ * Nothing herein should be construed as constituting an additional warranty.
+ * Open Text shall not be liable for technical or editorial errors or
+ * omissions contained herein. The information contained herein is subject
+ * to change without notice.
+ *
+ * Except as specifically indicated otherwise, this document contains
+ * confidential information and a valid license is required for possession,
+ * use or copying. If this work is provided to the U.S. Government,
+ * consistent with FAR 12.211 and 12.212, Commercial Computer Software,
+ * Computer Software Documentation, and Technical Data for Commercial Items are
+ * licensed to the U.S. Government under vendor's standard commercial license.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { setSecret } from '@actions/core';
+
+const MASK = '***';
+const MIN_SECRET_LENGTH = 4; // shorter values would mask common substrings of the log
+const SANITIZED_EXTENSIONS = ['.txt', '.properties', '.mtbx'];
+const SECRET_KEY_PATTERN = 'token|password|passwd|secret';
+const _secrets = new Set<string>();
+
+// the known secrets are masked by the runner in the job log too, the redaction also covers the logs and files which are uploaded
+const registerSecret = (secret?: string): void => {
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    return;
+  }
+  setSecret(secret);
+  _secrets.add(secret);
+  const encoded = encodeURIComponent(secret);
+  if (encoded !== secret) {
+    setSecret(encoded);
+    _secrets.add(encoded);
+  }
+};
+
+// masks the registered secrets and the credentials embedded in urls, e.g. https://x-access-token:<token>@github.com/...
+const redact = (text: string): string => {
+  let res = text.replace(/(\b[a-z][a-z0-9+.-]*:\/\/[^/\s:@]+:)[^@\s/]+@/gi, `$1${MASK}@`);
+  // the longest first, in case a secret contains another one
+  for (const secret of [..._secrets].sort((a, b) => b.length - a.length)) {
+    res = res.split(secret).join(MASK);
+  }
+  return res;
+};
+
+// true for the props and mtbx files of a test execution, which may contain the Digital Lab token or test parameters
+const isSanitizable = (fileName: string): boolean => SANITIZED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+// besides the registered secrets, masks the values of the props (key=value) and mtbx parameters whose name looks like a secret
+const sanitizeContent = (content: string): string => {
+  const secretProp = new RegExp(`^(\\s*[^=\\s#!]*(?:${SECRET_KEY_PATTERN})[^=\\s]*\\s*[=:]).*$`, 'gim');
+  const secretParam = new RegExp(`(<Parameter\\b[^>]*\\bname="[^"]*(?:${SECRET_KEY_PATTERN})[^"]*"[^>]*\\bvalue=")[^"]*"`, 'gi');
+  return redact(content.replace(secretProp, `$1${MASK}`).replace(secretParam, `$1${MASK}"`));
+};
+
+export { registerSecret, redact, isSanitizable, sanitizeContent };
@@ -35,14 +35,12 @@ import { context } from '@actions/github';
 import * as git from 'isomorphic-git';
 import { Logger } from './logger';
 import AutomatedTest from '../dto/ft/AutomatedTest';
+import UftoTestAction from '../dto/ft/UftoTestAction';
 import { DOMParser, Document } from '@xmldom/xmldom';
 import { TspParseError } from './TspParseError';
 import * as CFB from 'cfb';
 import ActionsEventType from '../dto/github/ActionsEventType';
 
-// File to store the string (hidden file to avoid cluttering the repo)
-const SYNCED_COMMIT_SHA = path.join(process.cwd(), '.synced-commit-sha');
-const SYNCED_TIMESTAMP = path.join(process.cwd(), '.synced-timestamp');
 const ACTIONS_XML = 'actions.xml';
 const COMPONENT_INFO = "ComponentInfo";
 const GUI_TEST_FILE = 'Test.tsp';
@@ -50,74 +48,15 @@ const API_ACTIONS_FILE = "actions.xml";//api test
 const TEXT_XML = "text/xml";
 const _TSP = '.tsp';
 const _ST = '.st';
-const UTF8 = 'utf8';
 const logger: Logger = new Logger('utils');
 
 async function getHeadCommitSha(dir: string): Promise<string> {
   return context.sha ?? git.resolveRef({ fs, dir, ref: 'HEAD' });
 }
 
-/**
- * Stores a string in the working directory
- * @param newCommit The string to store
- */
-async function saveSyncedCommit(newCommit: string): Promise<void> {
-  if (isBlank(newCommit))
-    return;
-  try {
-    await fs.writeFile(SYNCED_COMMIT_SHA, newCommit.trim(), UTF8);
-    logger.debug(`Newly synced commit ${newCommit} saved to [${SYNCED_COMMIT_SHA}]`);
-    await saveSyncedTimestamp();
-  } catch (error) {
-    throw new Error(`Failed to save string: ${(error as Error).message}`);
-  }
-}
-
-/**
- * Retrieves the stored string from the working directory
- * @returns The stored string, or undefined if the file doesn't exist
- */
-async function getSyncedCommit(): Promise<string> {
-  try {
-    const data = await fs.readFile(SYNCED_COMMIT_SHA, UTF8);
-    logger.debug(`Last synced commit: ${data} loaded from [${SYNCED_COMMIT_SHA}]`);
-    return data.trim();
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      logger.debug(`File doesn't exist yet [${SYNCED_COMMIT_SHA}]`);
-      return "";
-    }
-    throw new Error(`Failed to load string: ${(error as Error).message}`);
-  }
-}
-
-async function saveSyncedTimestamp(): Promise<void> {
-  try {
-    const currentTime = new Date().toISOString();
-    await fs.writeFile(SYNCED_TIMESTAMP, currentTime, UTF8);
-    logger.debug(`Newly run timestamp ${currentTime} saved to [${SYNCED_TIMESTAMP}]`);
-  } catch (error) {
-    throw new Error(`Failed to save string: ${(error as Error).message}`);
-  }
-}
-
-async function getSyncedTimestamp(): Promise<number> {
-  try {
-    const str = await fs.readFile(SYNCED_TIMESTAMP, UTF8);
-    logger.debug(`Last synced timestamp: ${str} loaded from [${SYNCED_TIMESTAMP}]`);
-    return new Date(str).getTime();
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      // File doesn't exist yet, return 0
-      return 0;
-    }
-    throw new Error(`Failed to load string: ${(error as Error).message}`);
-  }
-}
-
 function isTestMainFile(file: string): boolean {
   const f = file.toLowerCase();
-  return f.endsWith(_TSP) || f.endsWith(_ST) || f === ACTIONS_XML;
+  return f.endsWith(_TSP) || f.endsWith(_ST) || path.basename(f) === ACTIONS_XML;
 }
 
 function getParentFolderFullPath(fullFilePath: string): string {
@@ -127,7 +66,7 @@ function getParentFolderFullPath(fullFilePath: string): string {
 
 function getTestType(filePath: string): UftoTestType {
   const ext = path.extname(filePath).toLowerCase();
-  if (ext === _ST || filePath == ACTIONS_XML) {
+  if (ext === _ST || path.basename(filePath).toLowerCase() === ACTIONS_XML) {
     return UftoTestType.API;
   } else if (ext === _TSP) {
     return UftoTestType.GUI;
@@ -197,9 +136,9 @@ const extractScmTestPath = (scmPath: string): string | null => {
     return null;
   } else {
     const scmTestPath = scmPath.substring(0, index);
-    const actionNumber = scmPath.substring(index + 1, scmPath.length - 1);
-    // the last part of the test path should contain the action name like "action10"
-    if (actionNumber.toLowerCase().startsWith("action")) {
+    const actionName = scmPath.substring(index + 1);
+    // the last part of the test path should contain the action name like "action10" or "mainaction" for api tests
+    if (/^(main)?action/i.test(actionName)) {
       return scmTestPath;
     } else {
       return null;
@@ -231,6 +170,11 @@ const extractActionNameFromActionPath = (repositoryPath: string): string => {
   return repoPathParts[repoPathParts.length - 1]; // the last part of the repository path without logical name is the action name
 }
 
+// the unit name is the action's logical name, or <test name>:<action name> if the action has no logical name (Action1, Action2 etc.)
+const getUnitName = (action: UftoTestAction): string => {
+  return !action.logicalName || action.logicalName.startsWith("Action") ? `${action.testName}:${action.name}` : action.logicalName;
+}
+
 const calcByExpr = (param: string, regex: RegExp, groupNum: number): string => {
   logger.debug(`calcByExpr: param=${param}, regex=${regex}, groupNum=${groupNum} ...`);
   const match = param.match(regex);
@@ -256,10 +200,14 @@ const getSafeDomParser = (): DOMParser => {
 }
 
 const extractXmlFromTspOrMtrFile = async (filePath: string): Promise<string> => {
-  try {
-    // Read the .TSP file into a Buffer
-    const data = await fs.readFile(filePath);
+  // Read the .TSP file into a Buffer
+  const data = await fs.readFile(filePath);
+  return extractXmlFromCfb(data);
+}
 
+// the content of a Test.tsp or resource.mtr file (a CFB container), e.g. a blob read from git
+const extractXmlFromCfb = (data: Buffer): string => {
+  try {
     // Parse the CFB file
     const cfb: CFB.CFB$Container = CFB.read(data, { type: 'buffer' });
 
@@ -445,6 +393,10 @@ const getEventType = (event: string | null | undefined): ActionsEventType => {
       return ActionsEventType.WORKFLOW_DISPATCH;
     case 'push':
       return ActionsEventType.PUSH;
+    case 'pull_request':
+      return ActionsEventType.PULL_REQUEST;
+    case 'schedule':
+      return ActionsEventType.SCHEDULE;
     case 'requested':
       return ActionsEventType.WORKFLOW_QUEUED;
     case 'in_progress':
@@ -464,4 +416,4 @@ const getEventType = (event: string | null | undefined): ActionsEventType => {
   }
 };
 
-export { getHeadCommitSha, isBlank, isTestMainFile, getTestType, getParentFolderFullPath, saveSyncedCommit, getSyncedCommit, getSyncedTimestamp, extractWorkflowFileName, isVersionGreater, sleep, escapeQueryVal, getTestPathPrefix, extractScmTestPath, extractScmPathFromActionPath, extractActionLogicalNameFromActionPath, extractActionNameFromActionPath, calcByExpr, getSafeDomParser, extractXmlFromTspOrMtrFile, getGuiTestDocument, getApiTestDocument, getFileIfExist, getTimestamp, escapePropVal, checkReadWriteAccess, checkFileExists, escapeXML, parseTimeToFloat, getLastFolderFromPath, getEventType };
+export { getHeadCommitSha, isBlank, isTestMainFile, getTestType, getParentFolderFullPath, extractWorkflowFileName, isVersionGreater, sleep, escapeQueryVal, getTestPathPrefix, extractScmTestPath, extractScmPathFromActionPath, extractActionLogicalNameFromActionPath, extractActionNameFromActionPath, getUnitName, calcByExpr, getSafeDomParser, extractXmlFromTspOrMtrFile, extractXmlFromCfb, getGuiTestDocument, getApiTestDocument, getFileIfExist, getTimestamp, escapePropVal, checkReadWriteAccess, checkFileExists, escapeXML, parseTimeToFloat, getLastFolderFromPath, getEventType };